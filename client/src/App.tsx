@@ -8,6 +8,11 @@ import { Toaster } from "sonner";
 import { AuthProvider, useAuth } from "./contexts/AuthContext";
 import Dashboard from "./pages/Dashboard";
 import CreateClient from "./pages/CreateClient";
+import ClientDetail from "./pages/ClientDetail";
+import Rollouts from "./pages/Rollouts";
+import Releases from "./pages/Releases";
+import RailwayAccounts from "./pages/RailwayAccounts";
+import ImportProject from "./pages/ImportProject";
 import Login from "./pages/Login";
 import Register from "./pages/Register";
 import "./index.css";
@@ -43,6 +48,21 @@ function AppContent() {
         <Route path="/clients/create">
           {() => <ProtectedRoute component={CreateClient} />}
         </Route>
+        <Route path="/clients/import">
+          {() => <ProtectedRoute component={ImportProject} />}
+        </Route>
+        <Route path="/clients/:id">
+          {() => <ProtectedRoute component={ClientDetail} />}
+        </Route>
+        <Route path="/rollouts">
+          {() => <ProtectedRoute component={Rollouts} />}
+        </Route>
+        <Route path="/releases">
+          {() => <ProtectedRoute component={Releases} />}
+        </Route>
+        <Route path="/railway-accounts">
+          {() => <ProtectedRoute component={RailwayAccounts} />}
+        </Route>
         <Route>404 - Not Found</Route>
       </Switch>
     </div>
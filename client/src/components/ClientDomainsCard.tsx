@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { formatDateTime } from "@/lib/utils";
+import { Plus, RefreshCw, Trash2 } from "lucide-react";
+import DomainStatusBadge from "@/components/DomainStatusBadge";
+
+/**
+ * Custom domains of a client with the DNS records to create and their
+ * verification and certificate status on Railway
+ */
+export default function ClientDomainsCard({
+  clientId,
+  primaryDomain,
+  onChanged,
+}: {
+  clientId: string;
+  primaryDomain: string | null;
+  onChanged?: () => void;
+}) {
+  const { data: domains, refetch } = trpc.domains.list.useQuery(
+    { clientId },
+    { refetchInterval: 30000 }
+  );
+  const addMutation = trpc.domains.add.useMutation();
+  const removeMutation = trpc.domains.remove.useMutation();
+  const retryMutation = trpc.domains.retry.useMutation();
+  const [newDomain, setNewDomain] = useState("");
+
+  const refresh = () => {
+    refetch();
+    onChanged?.();
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await addMutation.mutateAsync({ clientId, domain: newDomain });
+      setNewDomain("");
+      refresh();
+    } catch (error) {
+      alert(`Failed to add domain: ${error}`);
+    }
+  };
+
+  const handleRemove = async (domainId: string, domain: string) => {
+    if (!confirm(`Remove ${domain} from this client and its Railway service?`)) return;
+    try {
+      await removeMutation.mutateAsync({ domainId });
+      refresh();
+    } catch (error) {
+      alert(`Failed to remove domain: ${error}`);
+    }
+  };
+
+  const handleRetry = async (domainId: string) => {
+    try {
+      await retryMutation.mutateAsync({ domainId });
+      refresh();
+    } catch (error) {
+      alert(`Retry failed: ${error}`);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Domains</CardTitle>
+        <CardDescription>
+          Create the DNS records below at the client's DNS provider. Railway issues the
+          certificate once they resolve.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {!domains || domains.length === 0 ? (
+          <p className="text-muted-foreground">No custom domains</p>
+        ) : (
+          domains.map((domain) => (
+            <div key={domain.id} className="border rounded-md p-3 space-y-2">
+              <div className="flex justify-between items-start gap-2">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{domain.domain}</span>
+                    {domain.domain === primaryDomain && (
+                      <span className="px-2 py-0.5 rounded-full bg-gray-100 text-xs">Primary</span>
+                    )}
+                    <DomainStatusBadge domain={domain} />
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    DNS: {domain.verificationStatus} · Certificate: {domain.certificateStatus}
+                    {domain.lastCheckedAt && <> · Checked {formatDateTime(domain.lastCheckedAt)}</>}
+                  </div>
+                  {domain.errorMessage && (
+                    <div className="text-xs text-red-600">{domain.errorMessage}</div>
+                  )}
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRetry(domain.id)}
+                    disabled={retryMutation.isPending}
+                  >
+                    <RefreshCw className="w-3 h-3" />
+                    {domain.railwayDomainId ? "Check" : "Retry"}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemove(domain.id, domain.domain)}
+                    disabled={removeMutation.isPending}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+
+              {domain.dnsRecords.length > 0 && (
+                <table className="w-full text-xs font-mono">
+                  <thead>
+                    <tr className="text-left text-muted-foreground">
+                      <th className="py-1 font-normal">Type</th>
+                      <th className="py-1 font-normal">Name</th>
+                      <th className="py-1 font-normal">Value</th>
+                      <th className="py-1 font-normal"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {domain.dnsRecords.map((record) => (
+                      <tr key={`${record.type}:${record.name}`}>
+                        <td className="py-1">{record.type}</td>
+                        <td className="py-1 break-all">{record.name}</td>
+                        <td className="py-1 break-all">{record.value}</td>
+                        <td className={`py-1 ${record.propagated ? "text-green-600" : "text-yellow-600"}`}>
+                          {record.propagated ? "OK" : "Pending"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          ))
+        )}
+
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <input
+            type="text"
+            className="flex-1 px-3 py-2 border rounded-md"
+            value={newDomain}
+            onChange={(e) => setNewDomain(e.target.value)}
+            placeholder="www.example.com"
+            required
+          />
+          <Button type="submit" size="sm" disabled={addMutation.isPending}>
+            <Plus className="w-3 h-3" />
+            Add domain
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,135 @@
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { formatDateTime } from "@/lib/utils";
+import { AlertTriangle, Download, RefreshCw } from "lucide-react";
+
+interface DriftedVariable {
+  key: string;
+  railway?: string;
+  portal?: string;
+  secret: boolean;
+  importable: boolean;
+}
+
+/**
+ * Environment variables that differ between the portal config and the client's
+ * Railway service. Each one can be imported from Railway, or all of them
+ * reconciled to the portal config by redeploying.
+ */
+export default function ClientDriftCard({
+  client,
+  onReconcile,
+  onChanged,
+}: {
+  client: {
+    id: string;
+    status: string;
+    configDrift: string | null;
+    driftCheckedAt: Date | string | null;
+  };
+  onReconcile: () => void;
+  onChanged?: () => void;
+}) {
+  const checkMutation = trpc.clients.checkDrift.useMutation();
+  const importMutation = trpc.clients.importDriftValue.useMutation();
+  const drift: DriftedVariable[] = client.configDrift ? JSON.parse(client.configDrift) : [];
+
+  const handleCheck = async () => {
+    try {
+      await checkMutation.mutateAsync({ clientId: client.id });
+      onChanged?.();
+    } catch (error) {
+      alert(`Drift check failed: ${error}`);
+    }
+  };
+
+  const handleImport = async (variable: DriftedVariable) => {
+    const action = variable.railway === undefined ? "Clear" : "Import";
+    if (!confirm(`${action} ${variable.key} in the portal config to match Railway?`)) return;
+
+    try {
+      await importMutation.mutateAsync({ clientId: client.id, key: variable.key });
+      onChanged?.();
+    } catch (error) {
+      alert(`Import failed: ${error}`);
+    }
+  };
+
+  const formatValue = (value: string | undefined) =>
+    value === undefined ? <span className="italic text-muted-foreground">not set</span> : value;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              Configuration Drift
+              {drift.length > 0 && <AlertTriangle className="w-4 h-4 text-yellow-600" />}
+            </CardTitle>
+            <CardDescription>
+              {client.driftCheckedAt
+                ? `Railway variables last compared ${formatDateTime(client.driftCheckedAt)}`
+                : "Railway variables have not been compared yet"}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleCheck}
+              disabled={checkMutation.isPending || client.status === "deploying"}
+            >
+              <RefreshCw className="w-3 h-3" />
+              Check now
+            </Button>
+            {drift.length > 0 && client.status !== "deploying" && (
+              <Button size="sm" onClick={onReconcile}>
+                Reconcile to portal
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="text-sm">
+        {drift.length === 0 ? (
+          <p className="text-muted-foreground">Railway matches the portal config</p>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="py-2">Variable</th>
+                <th className="py-2">Railway</th>
+                <th className="py-2">Portal</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {drift.map((variable) => (
+                <tr key={variable.key} className="border-b last:border-0 align-top">
+                  <td className="py-2 font-mono text-xs">{variable.key}</td>
+                  <td className="py-2 font-mono text-xs break-all">{formatValue(variable.railway)}</td>
+                  <td className="py-2 font-mono text-xs break-all">{formatValue(variable.portal)}</td>
+                  <td className="py-2 text-right">
+                    {variable.importable && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleImport(variable)}
+                        disabled={importMutation.isPending}
+                      >
+                        <Download className="w-3 h-3" />
+                        Import
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,89 @@
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Bell, BellOff } from "lucide-react";
+
+/**
+ * What happens when a production deployment of the client fails: the opt-in
+ * automatic rollback, and the admins who get notified
+ */
+export default function ClientFailureCard({
+  client,
+  onChanged,
+}: {
+  client: { id: string; autoRollback: boolean };
+  onChanged?: () => void;
+}) {
+  const { data: subscription, refetch } = trpc.clients.subscription.useQuery({ clientId: client.id });
+  const updateMutation = trpc.clients.update.useMutation();
+  const subscribeMutation = trpc.clients.subscribe.useMutation();
+  const unsubscribeMutation = trpc.clients.unsubscribe.useMutation();
+
+  const handleAutoRollback = async (enabled: boolean) => {
+    try {
+      await updateMutation.mutateAsync({ clientId: client.id, autoRollback: enabled });
+      onChanged?.();
+    } catch (error) {
+      alert(`Failed to update auto-rollback: ${error}`);
+    }
+  };
+
+  const handleSubscription = async () => {
+    try {
+      if (subscription?.subscribed) {
+        await unsubscribeMutation.mutateAsync({ clientId: client.id });
+      } else {
+        await subscribeMutation.mutateAsync({ clientId: client.id });
+      }
+      refetch();
+    } catch (error) {
+      alert(`Failed to update subscription: ${error}`);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle>Failure Handling</CardTitle>
+            <CardDescription>When a production deployment of this client fails</CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleSubscription}
+            disabled={subscribeMutation.isPending || unsubscribeMutation.isPending}
+          >
+            {subscription?.subscribed ? <BellOff className="w-3 h-3" /> : <Bell className="w-3 h-3" />}
+            {subscription?.subscribed ? "Unsubscribe" : "Notify me"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <label className="flex items-start gap-2">
+          <input
+            type="checkbox"
+            className="w-4 h-4 mt-0.5"
+            checked={client.autoRollback}
+            onChange={(e) => handleAutoRollback(e.target.checked)}
+            disabled={updateMutation.isPending}
+          />
+          <span>
+            <span className="font-medium">Roll back automatically</span>
+            <span className="block text-muted-foreground">
+              If a redeploy of the active client fails, including its smoke tests, the last successful
+              deployment is redeployed.
+            </span>
+          </span>
+        </label>
+        <div>
+          <span className="font-medium">Notified admins:</span>{" "}
+          {subscription && subscription.subscribers.length > 0
+            ? subscription.subscribers.map((subscriber) => subscriber.name).join(", ")
+            : "none"}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { formatDateTime } from "@/lib/utils";
+import { Eye, ExternalLink, Trash2 } from "lucide-react";
+
+/**
+ * Temporary previews of the client on a storefront branch, with sandbox
+ * LendPro credentials; each one is removed automatically when it expires
+ */
+export default function ClientPreviewsCard({
+  client,
+  onStarted,
+}: {
+  client: { id: string; status: string };
+  onStarted: (deploymentId: string) => void;
+}) {
+  const { data: previews, refetch } = trpc.previews.list.useQuery(
+    { clientId: client.id },
+    { refetchInterval: 10000 }
+  );
+  const createMutation = trpc.previews.create.useMutation();
+  const removeMutation = trpc.previews.remove.useMutation();
+  const [formData, setFormData] = useState({ branch: "", ttlHours: 24 });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const { deploymentId } = await createMutation.mutateAsync({
+        clientId: client.id,
+        branch: formData.branch.trim(),
+        ttlHours: formData.ttlHours,
+      });
+      setFormData((prev) => ({ ...prev, branch: "" }));
+      refetch();
+      onStarted(deploymentId);
+    } catch (error) {
+      alert(`Failed to start preview: ${error}`);
+    }
+  };
+
+  const handleRemove = async (previewId: string, branch: string) => {
+    if (!confirm(`Remove the preview of ${branch}?`)) return;
+
+    try {
+      await removeMutation.mutateAsync({ previewId });
+      refetch();
+    } catch (error) {
+      alert(`Failed to remove preview: ${error}`);
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case "active":
+        return "text-green-600";
+      case "deploying":
+        return "text-yellow-600";
+      case "failed":
+        return "text-red-600";
+      default:
+        return "text-gray-600";
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Branch Previews</CardTitle>
+        <CardDescription>
+          Try a storefront branch with this client's configuration and sandbox LendPro credentials
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-3">
+          <div className="flex-1 min-w-48">
+            <label className="block text-sm font-medium mb-1">Branch</label>
+            <input
+              type="text"
+              required
+              className="w-full px-3 py-2 border rounded-md font-mono"
+              value={formData.branch}
+              onChange={(e) => setFormData({ ...formData, branch: e.target.value })}
+              placeholder="feature/new-checkout"
+            />
+          </div>
+          <div className="w-32">
+            <label className="block text-sm font-medium mb-1">Expires after (h)</label>
+            <input
+              type="number"
+              min={1}
+              max={720}
+              className="w-full px-3 py-2 border rounded-md"
+              value={formData.ttlHours}
+              onChange={(e) => setFormData({ ...formData, ttlHours: parseInt(e.target.value) || 1 })}
+            />
+          </div>
+          <Button
+            type="submit"
+            disabled={
+              createMutation.isPending ||
+              client.status === "deploying" ||
+              !!previews?.some((preview) => preview.status === "deploying")
+            }
+          >
+            <Eye className="w-4 h-4" />
+            Deploy preview
+          </Button>
+        </form>
+
+        {!previews || previews.length === 0 ? (
+          <p className="text-muted-foreground">No previews yet</p>
+        ) : (
+          <ul className="space-y-2">
+            {previews.map((preview) => (
+              <li key={preview.id} className="border rounded-md p-3 flex justify-between items-start">
+                <div>
+                  <div>
+                    <span className="font-mono">{preview.branch}</span>
+                    {preview.commitSha && (
+                      <span className="font-mono text-xs"> @ {preview.commitSha.slice(0, 7)}</span>
+                    )}{" "}
+                    · <span className={`capitalize ${getStatusColor(preview.status)}`}>{preview.status}</span>
+                  </div>
+                  {preview.serviceUrl && preview.status === "active" && (
+                    <a
+                      href={`https://${preview.serviceUrl}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-600 hover:underline inline-flex items-center gap-1"
+                    >
+                      {preview.serviceUrl} <ExternalLink className="w-3 h-3" />
+                    </a>
+                  )}
+                  {preview.errorMessage && <div className="text-red-600">{preview.errorMessage}</div>}
+                  <div className="text-muted-foreground">
+                    {preview.status === "expired" || preview.status === "removed"
+                      ? `Removed ${preview.removedAt ? formatDateTime(preview.removedAt) : ""}`
+                      : `Expires ${formatDateTime(preview.expiresAt)}`}
+                  </div>
+                </div>
+                {(preview.status === "active" || preview.status === "failed") && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemove(preview.id, preview.branch)}
+                    disabled={removeMutation.isPending}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                    Remove
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Server } from "lucide-react";
+
+/**
+ * Replicas, memory and CPU limits, region and sleep setting of a client's
+ * service. Empty limits and region leave Railway's defaults in place.
+ */
+export default function ClientResourcesCard({
+  client,
+  onSaved,
+}: {
+  client: {
+    id: string;
+    numReplicas: number;
+    memoryLimitGb: number | null;
+    cpuLimit: number | null;
+    region: string | null;
+    sleepWhenIdle: boolean;
+  };
+  onSaved?: () => void;
+}) {
+  const updateMutation = trpc.clients.updateResources.useMutation();
+  const [editing, setEditing] = useState(false);
+  const [formData, setFormData] = useState({
+    numReplicas: 1,
+    memoryLimitGb: "",
+    cpuLimit: "",
+    region: "",
+    sleepWhenIdle: false,
+  });
+
+  const startEditing = () => {
+    setFormData({
+      numReplicas: client.numReplicas,
+      memoryLimitGb: client.memoryLimitGb?.toString() || "",
+      cpuLimit: client.cpuLimit?.toString() || "",
+      region: client.region || "",
+      sleepWhenIdle: client.sleepWhenIdle,
+    });
+    setEditing(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      await updateMutation.mutateAsync({
+        clientId: client.id,
+        numReplicas: formData.numReplicas,
+        memoryLimitGb: formData.memoryLimitGb ? parseInt(formData.memoryLimitGb) : null,
+        cpuLimit: formData.cpuLimit ? parseInt(formData.cpuLimit) : null,
+        region: formData.region.trim() || null,
+        sleepWhenIdle: formData.sleepWhenIdle,
+      });
+      setEditing(false);
+      onSaved?.();
+    } catch (error) {
+      alert(`Failed to update resources: ${error}`);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle>Resources</CardTitle>
+            <CardDescription>Applied on the next deployment</CardDescription>
+          </div>
+          {!editing && (
+            <Button variant="outline" size="sm" onClick={startEditing}>
+              <Server className="w-3 h-3" />
+              Change
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="text-sm">
+        {editing ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">Replicas</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={20}
+                  className="w-full px-3 py-2 border rounded-md"
+                  value={formData.numReplicas}
+                  onChange={(e) => setFormData({ ...formData, numReplicas: parseInt(e.target.value) || 1 })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Memory limit (GB)</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={32}
+                  className="w-full px-3 py-2 border rounded-md"
+                  value={formData.memoryLimitGb}
+                  onChange={(e) => setFormData({ ...formData, memoryLimitGb: e.target.value })}
+                  placeholder="Default"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">CPU limit (vCPUs)</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={32}
+                  className="w-full px-3 py-2 border rounded-md"
+                  value={formData.cpuLimit}
+                  onChange={(e) => setFormData({ ...formData, cpuLimit: e.target.value })}
+                  placeholder="Default"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Region</label>
+              <input
+                type="text"
+                className="w-full px-3 py-2 border rounded-md font-mono"
+                value={formData.region}
+                onChange={(e) => setFormData({ ...formData, region: e.target.value })}
+                placeholder="us-west2"
+              />
+            </div>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                className="w-4 h-4"
+                checked={formData.sleepWhenIdle}
+                onChange={(e) => setFormData({ ...formData, sleepWhenIdle: e.target.checked })}
+              />
+              Sleep when idle
+            </label>
+            <div className="flex gap-2">
+              <Button type="submit" size="sm" disabled={updateMutation.isPending}>
+                Save
+              </Button>
+              <Button type="button" variant="ghost" size="sm" onClick={() => setEditing(false)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="space-y-1">
+            <div>
+              <span className="font-medium">Replicas:</span> {client.numReplicas}
+            </div>
+            <div>
+              <span className="font-medium">Memory limit:</span>{" "}
+              {client.memoryLimitGb ? `${client.memoryLimitGb} GB` : <span className="text-muted-foreground">Default</span>}
+            </div>
+            <div>
+              <span className="font-medium">CPU limit:</span>{" "}
+              {client.cpuLimit ? `${client.cpuLimit} vCPU` : <span className="text-muted-foreground">Default</span>}
+            </div>
+            <div>
+              <span className="font-medium">Region:</span>{" "}
+              {client.region ? (
+                <span className="font-mono">{client.region}</span>
+              ) : (
+                <span className="text-muted-foreground">Default</span>
+              )}
+            </div>
+            <div>
+              <span className="font-medium">Sleep when idle:</span> {client.sleepWhenIdle ? "Yes" : "No"}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
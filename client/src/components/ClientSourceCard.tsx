@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { GitBranch } from "lucide-react";
+
+const DEFAULT_REPO = "AudienceActivatorAI/lendpro-ecommerce";
+const DEFAULT_BRANCH = "main";
+
+/**
+ * Repo, branch and pinned commit a client's storefront is built from.
+ * Empty fields fall back to the deployer defaults.
+ */
+export default function ClientSourceCard({
+  client,
+  onSaved,
+}: {
+  client: {
+    id: string;
+    githubRepo: string | null;
+    githubBranch: string | null;
+    githubCommitSha: string | null;
+    deployedCommitSha: string | null;
+    deployedVersion: string | null;
+  };
+  onSaved?: () => void;
+}) {
+  const updateMutation = trpc.clients.updateSource.useMutation();
+  const [editing, setEditing] = useState(false);
+  const [formData, setFormData] = useState({ repo: "", branch: "", commitSha: "" });
+
+  const startEditing = () => {
+    setFormData({
+      repo: client.githubRepo || "",
+      branch: client.githubBranch || "",
+      commitSha: client.githubCommitSha || "",
+    });
+    setEditing(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      await updateMutation.mutateAsync({
+        clientId: client.id,
+        githubRepo: formData.repo.trim() || null,
+        githubBranch: formData.branch.trim() || null,
+        githubCommitSha: formData.commitSha.trim() || null,
+      });
+      setEditing(false);
+      onSaved?.();
+    } catch (error) {
+      alert(`Failed to update source: ${error}`);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle>Source</CardTitle>
+            <CardDescription>Applied on the next deployment</CardDescription>
+          </div>
+          {!editing && (
+            <Button variant="outline" size="sm" onClick={startEditing}>
+              <GitBranch className="w-3 h-3" />
+              Change
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="text-sm">
+        {editing ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium mb-1">Repository</label>
+              <input
+                type="text"
+                className="w-full px-3 py-2 border rounded-md"
+                value={formData.repo}
+                onChange={(e) => setFormData({ ...formData, repo: e.target.value })}
+                placeholder={DEFAULT_REPO}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Branch</label>
+              <input
+                type="text"
+                className="w-full px-3 py-2 border rounded-md"
+                value={formData.branch}
+                onChange={(e) => setFormData({ ...formData, branch: e.target.value })}
+                placeholder={DEFAULT_BRANCH}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Pinned commit</label>
+              <input
+                type="text"
+                className="w-full px-3 py-2 border rounded-md font-mono"
+                value={formData.commitSha}
+                onChange={(e) => setFormData({ ...formData, commitSha: e.target.value })}
+                placeholder="Leave empty to follow the head of the branch"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" size="sm" disabled={updateMutation.isPending}>
+                Save
+              </Button>
+              <Button type="button" variant="ghost" size="sm" onClick={() => setEditing(false)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="space-y-1">
+            <div>
+              <span className="font-medium">Repository:</span> {client.githubRepo || DEFAULT_REPO}
+            </div>
+            <div>
+              <span className="font-medium">Branch:</span> {client.githubBranch || DEFAULT_BRANCH}
+            </div>
+            <div>
+              <span className="font-medium">Commit:</span>{" "}
+              {client.githubCommitSha ? (
+                <span className="font-mono">{client.githubCommitSha}</span>
+              ) : (
+                <span className="text-muted-foreground">Head of branch</span>
+              )}
+            </div>
+            <div>
+              <span className="font-medium">Running:</span>{" "}
+              {client.deployedCommitSha ? (
+                <>
+                  {client.deployedVersion || "unknown version"}{" "}
+                  <span className="font-mono">({client.deployedCommitSha.slice(0, 7)})</span>
+                </>
+              ) : (
+                <span className="text-muted-foreground">Unknown</span>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,135 @@
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { formatDateTime } from "@/lib/utils";
+import { ArrowUpCircle, ExternalLink, FlaskConical } from "lucide-react";
+
+/**
+ * The client's staging environment on Railway: deploy the current portal config
+ * there first, then promote the tested deployment to production
+ */
+export default function ClientStagingCard({
+  client,
+  latestStaging,
+  onStarted,
+}: {
+  client: {
+    id: string;
+    status: string;
+    railwayStagingEnvironmentId: string | null;
+    stagingServiceUrl: string | null;
+    stagingDeployedAt: Date | string | null;
+  };
+  // Most recent staging deployment, if any
+  latestStaging?: {
+    id: string;
+    status: string;
+    githubBranch: string | null;
+    githubCommitSha: string | null;
+    startedAt: Date | string;
+    canPromote: boolean;
+  };
+  onStarted: (deploymentId: string) => void;
+}) {
+  const deployMutation = trpc.clients.deploy.useMutation();
+  const promoteMutation = trpc.deployments.promote.useMutation();
+  // Staging deployments leave the client status alone; their own row tells whether one is running
+  const stagingInFlight = ["pending", "building", "deploying"].includes(latestStaging?.status || "");
+  const busy =
+    client.status === "deploying" || stagingInFlight || deployMutation.isPending || promoteMutation.isPending;
+
+  const handleDeploy = async () => {
+    const note = client.railwayStagingEnvironmentId
+      ? ""
+      : " The staging environment is created as a copy of production first.";
+    if (!confirm(`Deploy the current configuration to staging?${note}`)) return;
+
+    try {
+      const { deploymentId } = await deployMutation.mutateAsync({
+        clientId: client.id,
+        environment: "staging",
+      });
+      onStarted(deploymentId);
+    } catch (error) {
+      alert(`Staging deployment failed: ${error}`);
+    }
+  };
+
+  const handlePromote = async () => {
+    if (!latestStaging) return;
+    if (!confirm("Promote the tested staging configuration and release to production?")) return;
+
+    try {
+      const { deploymentId } = await promoteMutation.mutateAsync({ deploymentId: latestStaging.id });
+      onStarted(deploymentId);
+    } catch (error) {
+      alert(`Promotion failed: ${error}`);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle>Staging</CardTitle>
+            <CardDescription>
+              Deploy and verify changes in staging, then promote them to production
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleDeploy} disabled={busy}>
+              <FlaskConical className="w-3 h-3" />
+              Deploy to staging
+            </Button>
+            <Button size="sm" onClick={handlePromote} disabled={busy || !latestStaging?.canPromote}>
+              <ArrowUpCircle className="w-3 h-3" />
+              Promote to production
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        {!latestStaging ? (
+          <p className="text-muted-foreground">Nothing has been deployed to staging yet</p>
+        ) : (
+          <div>
+            <span className="font-medium">Latest staging deployment:</span>{" "}
+            <span className="capitalize">{latestStaging.status}</span>,{" "}
+            {formatDateTime(latestStaging.startedAt)}
+            {latestStaging.githubBranch && (
+              <span className="font-mono text-xs">
+                {" "}
+                ({latestStaging.githubBranch}
+                {latestStaging.githubCommitSha && ` @ ${latestStaging.githubCommitSha.slice(0, 7)}`})
+              </span>
+            )}
+          </div>
+        )}
+        {client.stagingDeployedAt && (
+          <div>
+            <span className="font-medium">Last successful staging deploy:</span>{" "}
+            {formatDateTime(client.stagingDeployedAt)}
+          </div>
+        )}
+        {client.stagingServiceUrl && (
+          <div>
+            <a
+              href={`https://${client.stagingServiceUrl}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-blue-600 hover:underline inline-flex items-center gap-1"
+            >
+              {client.stagingServiceUrl} <ExternalLink className="w-3 h-3" />
+            </a>
+          </div>
+        )}
+        {latestStaging && !latestStaging.canPromote && latestStaging.status !== "success" && (
+          <p className="text-muted-foreground">
+            Only a successful staging deployment can be promoted.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,122 @@
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { RefreshCw } from "lucide-react";
+
+interface VariableChange {
+  key: string;
+  current?: string;
+  next?: string;
+  secret: boolean;
+}
+
+/**
+ * Confirmation dialog listing the environment variable changes a deployment
+ * would make, from clients.planDeploy. Nothing is deployed until confirmed.
+ */
+export default function DeployPlanDialog({
+  clientId,
+  clientName,
+  open,
+  onOpenChange,
+  onConfirm,
+  deploying,
+}: {
+  clientId: string;
+  clientName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: () => void;
+  deploying?: boolean;
+}) {
+  const { data: plan, isLoading, error } = trpc.clients.planDeploy.useQuery(
+    { clientId },
+    { enabled: open, staleTime: 0, gcTime: 0 }
+  );
+
+  const noChanges =
+    plan && plan.added.length === 0 && plan.removed.length === 0 && plan.changed.length === 0;
+
+  const renderSection = (
+    title: string,
+    changes: VariableChange[],
+    color: string,
+    render: (change: VariableChange) => string | undefined
+  ) =>
+    changes.length > 0 && (
+      <div>
+        <h4 className={`text-sm font-medium mb-1 ${color}`}>
+          {title} ({changes.length})
+        </h4>
+        <div className="bg-gray-50 rounded-md p-2 font-mono text-xs space-y-1">
+          {changes.map((change) => (
+            <div key={change.key} className="break-all">
+              <span className="font-semibold">{change.key}</span>
+              {render(change) !== undefined && <span className="text-gray-600"> {render(change)}</span>}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Deploy {clientName}?</DialogTitle>
+          <DialogDescription>
+            {plan?.firstDeployment
+              ? "This client has not been deployed yet. A new Railway project will be created with these variables."
+              : "Environment variable changes on the Railway service"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-96 overflow-y-auto space-y-4">
+          {isLoading && <p className="text-sm text-muted-foreground">Building deployment plan...</p>}
+          {error && (
+            <p className="text-sm text-red-600">
+              Could not load the deployment plan: {error.message}
+            </p>
+          )}
+          {noChanges && (
+            <p className="text-sm text-muted-foreground">
+              No environment variable changes. The service will be rebuilt with its current
+              configuration.
+            </p>
+          )}
+          {plan && (
+            <>
+              {renderSection("Added", plan.added, "text-green-700", (c) => `= ${c.next}`)}
+              {renderSection("Changed", plan.changed, "text-yellow-700", (c) =>
+                c.secret ? "(secret changed)" : `${c.current} → ${c.next}`
+              )}
+              {renderSection("Removed", plan.removed, "text-red-700", () => undefined)}
+              {plan.unchanged > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {plan.unchanged} variable{plan.unchanged === 1 ? "" : "s"} unchanged
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={onConfirm} disabled={isLoading || deploying}>
+            <RefreshCw className="w-4 h-4" />
+            Deploy
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
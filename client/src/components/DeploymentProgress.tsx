@@ -0,0 +1,154 @@
+import { useEffect, useRef, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Square, X } from "lucide-react";
+
+interface LogEntry {
+  timestamp: string;
+  level: "info" | "warn" | "error";
+  step: string;
+  message: string;
+}
+
+type DeploymentEvent =
+  | { type: "log"; entry: LogEntry }
+  | { type: "status"; status: string; errorMessage?: string | null };
+
+/**
+ * Live view of a deployment's log entries, streamed from
+ * /api/deployments/:id/events. Without a deploymentId the client's
+ * most recent deployment is shown.
+ */
+export default function DeploymentProgress({
+  clientId,
+  deploymentId,
+  onClose,
+}: {
+  clientId: string;
+  deploymentId?: string;
+  onClose?: () => void;
+}) {
+  const { data: history } = trpc.deployments.history.useQuery(
+    { clientId, limit: 1 },
+    { enabled: !deploymentId }
+  );
+  const activeId = deploymentId || history?.[0]?.id;
+  const cancelMutation = trpc.deployments.cancel.useMutation();
+
+  const [entries, setEntries] = useState<LogEntry[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!activeId) return;
+
+    setEntries([]);
+    setStatus(null);
+    setErrorMessage(null);
+
+    const token = localStorage.getItem("authToken") || "";
+    const source = new EventSource(
+      `/api/deployments/${activeId}/events?token=${encodeURIComponent(token)}`
+    );
+
+    const handle = (event: MessageEvent) => {
+      const data = JSON.parse(event.data) as DeploymentEvent;
+      if (data.type === "log") {
+        setEntries((prev) => [...prev, data.entry]);
+      } else {
+        setStatus(data.status);
+        setErrorMessage(data.errorMessage || null);
+      }
+    };
+
+    source.addEventListener("log", handle);
+    source.addEventListener("status", handle);
+    // The server closes the stream once the deployment finishes
+    source.onerror = () => source.close();
+
+    return () => source.close();
+  }, [activeId]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "nearest" });
+  }, [entries.length]);
+
+  const handleCancel = async () => {
+    if (activeId && confirm("Cancel this deployment?")) {
+      try {
+        await cancelMutation.mutateAsync({ deploymentId: activeId });
+      } catch (error) {
+        alert(`Failed to cancel deployment: ${error}`);
+      }
+    }
+  };
+
+  const inFlight = status === "pending" || status === "building" || status === "deploying";
+
+  const levelColor = (level: LogEntry["level"]) => {
+    switch (level) {
+      case "error":
+        return "text-red-400";
+      case "warn":
+        return "text-yellow-300";
+      default:
+        return "text-gray-100";
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle>Deployment Progress</CardTitle>
+            <CardDescription>
+              {activeId ? (
+                <>
+                  {activeId} · <span className="capitalize">{status || "connecting"}</span>
+                </>
+              ) : (
+                "No deployments yet"
+              )}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {inFlight && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleCancel}
+                disabled={cancelMutation.isPending}
+              >
+                <Square className="w-3 h-3" />
+                Cancel
+              </Button>
+            )}
+            {onClose && (
+              <Button variant="ghost" size="icon" onClick={onClose}>
+                <X className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="bg-gray-900 rounded-md p-4 font-mono text-xs max-h-80 overflow-y-auto space-y-1">
+          {entries.length === 0 && <div className="text-gray-400">Waiting for output...</div>}
+          {entries.map((entry, i) => (
+            <div key={i} className={levelColor(entry.level)}>
+              <span className="text-gray-500">
+                {new Date(entry.timestamp).toLocaleTimeString()}
+              </span>{" "}
+              {entry.message}
+            </div>
+          ))}
+          <div ref={bottomRef} />
+        </div>
+        {errorMessage && <p className="text-sm text-red-600 mt-2">{errorMessage}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,54 @@
+import { CheckCircle2, Clock, XCircle } from "lucide-react";
+
+/**
+ * One-glance state of a custom domain: not on Railway yet, waiting for DNS or
+ * the certificate, live, or failed
+ */
+export function describeDomainStatus(domain: {
+  railwayDomainId: string | null;
+  verificationStatus: string;
+  certificateStatus: string;
+}): { label: string; tone: "ok" | "waiting" | "error" } {
+  if (domain.verificationStatus === "failed") {
+    return { label: "Failed", tone: "error" };
+  }
+  if (!domain.railwayDomainId) {
+    return { label: "Added on next deploy", tone: "waiting" };
+  }
+  if (domain.verificationStatus !== "verified") {
+    return { label: "Waiting for DNS", tone: "waiting" };
+  }
+  if (domain.certificateStatus === "failed") {
+    return { label: "Certificate failed", tone: "error" };
+  }
+  if (domain.certificateStatus !== "issued") {
+    return { label: "Issuing certificate", tone: "waiting" };
+  }
+  return { label: "Live", tone: "ok" };
+}
+
+export default function DomainStatusBadge({
+  domain,
+}: {
+  domain: {
+    railwayDomainId: string | null;
+    verificationStatus: string;
+    certificateStatus: string;
+  };
+}) {
+  const { label, tone } = describeDomainStatus(domain);
+
+  const styles = {
+    ok: "bg-green-100 text-green-800",
+    waiting: "bg-yellow-100 text-yellow-800",
+    error: "bg-red-100 text-red-800",
+  }[tone];
+  const Icon = { ok: CheckCircle2, waiting: Clock, error: XCircle }[tone];
+
+  return (
+    <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs ${styles}`}>
+      <Icon className="w-3 h-3" />
+      {label}
+    </span>
+  );
+}
@@ -0,0 +1,420 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { formatDateTime } from "@/lib/utils";
+import { useLocation, useParams } from "wouter";
+import { ArrowLeft, ExternalLink, RefreshCw, RotateCcw } from "lucide-react";
+import DeploymentProgress from "@/components/DeploymentProgress";
+import DeployPlanDialog from "@/components/DeployPlanDialog";
+import ClientSourceCard from "@/components/ClientSourceCard";
+import ClientResourcesCard from "@/components/ClientResourcesCard";
+import ClientDriftCard from "@/components/ClientDriftCard";
+import ClientDomainsCard from "@/components/ClientDomainsCard";
+import ClientStagingCard from "@/components/ClientStagingCard";
+import ClientFailureCard from "@/components/ClientFailureCard";
+import ClientPreviewsCard from "@/components/ClientPreviewsCard";
+
+export default function ClientDetail() {
+  const params = useParams<{ id: string }>();
+  const clientId = params.id;
+  const [, setLocation] = useLocation();
+
+  const { data, isLoading, refetch } = trpc.clients.get.useQuery(
+    { id: clientId },
+    { refetchInterval: 10000 }
+  );
+  const { data: history, refetch: refetchHistory } = trpc.deployments.history.useQuery(
+    { clientId, limit: 20 },
+    { refetchInterval: 10000 }
+  );
+  const { data: statusEvents } = trpc.clients.statusHistory.useQuery(
+    { clientId },
+    { refetchInterval: 10000 }
+  );
+  const deployMutation = trpc.clients.deploy.useMutation();
+  const rollbackMutation = trpc.deployments.rollback.useMutation();
+  const [watching, setWatching] = useState<string | null>(null);
+  const [planning, setPlanning] = useState(false);
+  const updateMutation = trpc.clients.update.useMutation();
+  const { data: railwayAccounts } = trpc.railwayAccounts.list.useQuery();
+  const accountMutation = trpc.clients.updateRailwayAccount.useMutation();
+  const [tagsDraft, setTagsDraft] = useState<string | null>(null);
+
+  const handleDeploy = async () => {
+    try {
+      const { deploymentId } = await deployMutation.mutateAsync({ clientId });
+      setPlanning(false);
+      setWatching(deploymentId);
+      refetch();
+      refetchHistory();
+    } catch (error) {
+      alert(`Deployment failed: ${error}`);
+    }
+  };
+
+  const handleAccountChange = async (railwayAccountId: string) => {
+    try {
+      await accountMutation.mutateAsync({ clientId, railwayAccountId: railwayAccountId || null });
+      refetch();
+    } catch (error) {
+      alert(`Failed to change Railway account: ${error}`);
+    }
+  };
+
+  const handleRollback = async (deploymentId: string) => {
+    if (confirm("Roll back to the configuration and release of this deployment?")) {
+      try {
+        const result = await rollbackMutation.mutateAsync({ deploymentId });
+        setWatching(result.deploymentId);
+        refetch();
+        refetchHistory();
+      } catch (error) {
+        alert(`Rollback failed: ${error}`);
+      }
+    }
+  };
+
+  const handleSaveTags = async () => {
+    if (tagsDraft === null) return;
+    try {
+      await updateMutation.mutateAsync({
+        clientId,
+        tags: tagsDraft
+          .split(",")
+          .map((tag) => tag.trim())
+          .filter(Boolean),
+      });
+      setTagsDraft(null);
+      refetch();
+    } catch (error) {
+      alert(`Failed to update tags: ${error}`);
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case "active":
+      case "success":
+        return "text-green-600";
+      case "deploying":
+      case "pending":
+      case "building":
+        return "text-yellow-600";
+      case "failed":
+      case "crashed":
+        return "text-red-600";
+      case "sleeping":
+        return "text-blue-600";
+      default:
+        return "text-gray-600";
+    }
+  };
+
+  if (isLoading) {
+    return <div className="p-8">Loading...</div>;
+  }
+
+  if (!data) {
+    return <div className="p-8">Client not found</div>;
+  }
+
+  const client = data.client;
+  const tags: string[] = client.tags ? JSON.parse(client.tags) : [];
+  const latestStaging = history?.find((deployment) => deployment.environment === "staging");
+
+  return (
+    <div className="p-8 max-w-5xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" onClick={() => setLocation("/")} size="icon">
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">{client.name}</h1>
+            <p className="text-muted-foreground">{client.domain}</p>
+          </div>
+        </div>
+        {client.status !== "deploying" && (
+          <Button onClick={() => setPlanning(true)} disabled={deployMutation.isPending}>
+            <RefreshCw className="w-4 h-4" />
+            {client.railwayProjectId ? "Redeploy" : "Deploy"}
+          </Button>
+        )}
+      </div>
+
+      {/* Overview */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Overview</CardTitle>
+          <CardDescription>Deployment status and Railway resources</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          <div>
+            <span className="font-medium">Status:</span>{" "}
+            <span className={`capitalize ${getStatusColor(client.status)}`}>{client.status}</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="font-medium">Tags:</span>
+            {tagsDraft === null ? (
+              <>
+                {tags.length > 0 ? (
+                  tags.map((tag) => (
+                    <span key={tag} className="px-2 py-0.5 rounded-full bg-gray-100 text-xs">
+                      {tag}
+                    </span>
+                  ))
+                ) : (
+                  <span className="text-muted-foreground">None</span>
+                )}
+                <Button variant="link" size="sm" onClick={() => setTagsDraft(tags.join(", "))}>
+                  Edit
+                </Button>
+              </>
+            ) : (
+              <>
+                <input
+                  type="text"
+                  className="px-2 py-1 border rounded-md text-sm"
+                  value={tagsDraft}
+                  onChange={(e) => setTagsDraft(e.target.value)}
+                  placeholder="pilot, west-coast"
+                />
+                <Button size="sm" onClick={handleSaveTags} disabled={updateMutation.isPending}>
+                  Save
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setTagsDraft(null)}>
+                  Cancel
+                </Button>
+              </>
+            )}
+          </div>
+          <div>
+            <span className="font-medium">Railway account:</span>{" "}
+            {client.railwayProjectId || client.railwayOrphanedProjectId ? (
+              railwayAccounts?.find((account) => account.id === client.railwayAccountId)?.name || "Default"
+            ) : (
+              <select
+                className="px-2 py-1 border rounded-md text-sm"
+                value={client.railwayAccountId || ""}
+                onChange={(e) => handleAccountChange(e.target.value)}
+                disabled={accountMutation.isPending}
+              >
+                <option value="">Default</option>
+                {railwayAccounts?.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.name}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+          {client.lastDeployedAt && (
+            <div>
+              <span className="font-medium">Last deployed:</span> {formatDateTime(client.lastDeployedAt)}
+            </div>
+          )}
+          {client.serviceUrl && (
+            <div>
+              <a
+                href={`https://${client.serviceUrl}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-600 hover:underline inline-flex items-center gap-1"
+              >
+                {client.serviceUrl} <ExternalLink className="w-3 h-3" />
+              </a>
+            </div>
+          )}
+          {client.railwayProjectUrl && (
+            <div>
+              <a
+                href={client.railwayProjectUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-600 hover:underline inline-flex items-center gap-1"
+              >
+                Railway project <ExternalLink className="w-3 h-3" />
+              </a>
+            </div>
+          )}
+          {client.status === "removed" && !client.railwayProjectId && (
+            <div className="text-yellow-700">
+              The Railway project was deleted outside the portal. Deploy to create a new one.
+            </div>
+          )}
+          {client.railwayOrphanedProjectId && (
+            <div className="text-yellow-700">
+              Railway project {client.railwayOrphanedProjectId} from a failed deployment is still
+              pending cleanup. It is removed on the next deploy or when the client is deleted.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {statusEvents && statusEvents.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Status Changes</CardTitle>
+            <CardDescription>Detected from the service's state on Railway</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <table className="w-full text-sm">
+              <tbody>
+                {statusEvents.map((event) => (
+                  <tr key={event.id} className="border-b last:border-0">
+                    <td className="py-2 whitespace-nowrap">{formatDateTime(event.createdAt)}</td>
+                    <td className="py-2 capitalize">
+                      <span className={getStatusColor(event.fromStatus)}>{event.fromStatus}</span>
+                      {" → "}
+                      <span className={getStatusColor(event.toStatus)}>{event.toStatus}</span>
+                    </td>
+                    <td className="py-2 text-muted-foreground">{event.reason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
+      <ClientDomainsCard clientId={clientId} primaryDomain={client.domain} onChanged={refetch} />
+
+      <ClientSourceCard client={client} onSaved={refetch} />
+
+      <ClientResourcesCard client={client} onSaved={refetch} />
+
+      {client.railwayProjectId && (
+        <ClientStagingCard
+          client={client}
+          latestStaging={latestStaging}
+          onStarted={(deploymentId) => {
+            setWatching(deploymentId);
+            refetch();
+            refetchHistory();
+          }}
+        />
+      )}
+
+      {client.railwayProjectId && (
+        <ClientPreviewsCard
+          client={client}
+          onStarted={(deploymentId) => {
+            setWatching(deploymentId);
+            refetch();
+            refetchHistory();
+          }}
+        />
+      )}
+
+      <ClientFailureCard client={client} onChanged={refetch} />
+
+      {client.railwayProjectId && (
+        <ClientDriftCard client={client} onReconcile={() => setPlanning(true)} onChanged={refetch} />
+      )}
+
+      {planning && (
+        <DeployPlanDialog
+          clientId={clientId}
+          clientName={client.name}
+          open
+          onOpenChange={setPlanning}
+          onConfirm={handleDeploy}
+          deploying={deployMutation.isPending}
+        />
+      )}
+
+      {watching && (
+        <DeploymentProgress
+          key={watching}
+          clientId={clientId}
+          deploymentId={watching}
+          onClose={() => setWatching(null)}
+        />
+      )}
+
+      {/* Deployment History */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Deployment History</CardTitle>
+          <CardDescription>Roll back to any successful deployment</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!history || history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No deployments yet</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left border-b">
+                  <th className="py-2">Started</th>
+                  <th className="py-2">Type</th>
+                  <th className="py-2">Environment</th>
+                  <th className="py-2">Ref</th>
+                  <th className="py-2">Status</th>
+                  <th className="py-2">Completed</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {history.map((deployment) => (
+                  <tr key={deployment.id} className="border-b last:border-0 align-top">
+                    <td className="py-2">{formatDateTime(deployment.startedAt)}</td>
+                    <td className="py-2 capitalize">{deployment.deploymentType}</td>
+                    <td className="py-2 capitalize">{deployment.environment}</td>
+                    <td className="py-2 font-mono text-xs">
+                      {deployment.githubBranch || "—"}
+                      {deployment.githubCommitSha && ` @ ${deployment.githubCommitSha.slice(0, 7)}`}
+                    </td>
+                    <td className="py-2">
+                      <span className={`capitalize ${getStatusColor(deployment.status)}`}>
+                        {deployment.status}
+                      </span>
+                      {deployment.errorMessage && (
+                        <div className="text-xs text-red-600">{deployment.errorMessage}</div>
+                      )}
+                      {deployment.smokeTests.length > 0 && (
+                        <div className="text-xs text-muted-foreground space-y-0.5 mt-1">
+                          {deployment.smokeTests.map((check) => (
+                            <div
+                              key={check.name}
+                              className={check.passed ? "" : "text-red-600"}
+                              title={check.message}
+                            >
+                              {check.passed ? "✓" : "✗"} {check.name.replace("_", " ")}
+                              {!check.passed && `: ${check.message}`}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-2">
+                      {deployment.completedAt ? formatDateTime(deployment.completedAt) : "—"}
+                    </td>
+                    <td className="py-2">
+                      <div className="flex gap-2 justify-end">
+                        <Button variant="ghost" size="sm" onClick={() => setWatching(deployment.id)}>
+                          Logs
+                        </Button>
+                        {deployment.canRollback && client.status !== "deploying" && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleRollback(deployment.id)}
+                            disabled={rollbackMutation.isPending}
+                          >
+                            <RotateCcw className="w-3 h-3" />
+                            Rollback
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -9,10 +9,12 @@ export default function CreateClient() {
   const [, setLocation] = useLocation();
   const createMutation = trpc.clients.create.useMutation();
   const deployMutation = trpc.clients.deploy.useMutation();
+  const { data: railwayAccounts } = trpc.railwayAccounts.list.useQuery();
 
   const [formData, setFormData] = useState({
     name: "",
     domain: "",
+    railwayAccountId: "",
     lendpro: {
       username: "",
       password: "",
@@ -39,11 +41,14 @@ export default function CreateClient() {
     e.preventDefault();
     
     try {
-      const result = await createMutation.mutateAsync(formData);
+      const result = await createMutation.mutateAsync({
+        ...formData,
+        railwayAccountId: formData.railwayAccountId || undefined,
+      });
       
       if (confirm("Client created! Deploy now?")) {
         await deployMutation.mutateAsync({ clientId: result.clientId });
-        alert("Deployment started!");
+        alert("Deployment queued!");
       }
       
       setLocation("/");
@@ -110,6 +115,23 @@ export default function CreateClient() {
                 placeholder="acme.tredfi.com"
               />
             </div>
+            {railwayAccounts && railwayAccounts.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium mb-1">Railway Account</label>
+                <select
+                  className="w-full px-3 py-2 border rounded-md"
+                  value={formData.railwayAccountId}
+                  onChange={(e) => updateField("railwayAccountId", e.target.value)}
+                >
+                  <option value="">Default account</option>
+                  {railwayAccounts.map((account) => (
+                    <option key={account.id} value={account.id}>
+                      {account.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -1,24 +1,42 @@
+import { useState } from "react";
 import { trpc } from "@/lib/trpc";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { formatDate, formatCurrency } from "@/lib/utils";
 import { Link } from "wouter";
-import { Plus, ExternalLink, RefreshCw, Trash2 } from "lucide-react";
+import {
+  Plus,
+  ExternalLink,
+  RefreshCw,
+  Trash2,
+  Activity,
+  Rocket,
+  AlertTriangle,
+  Tag,
+  TrainFront,
+  Download,
+} from "lucide-react";
+import DeploymentProgress from "@/components/DeploymentProgress";
+import DeployPlanDialog from "@/components/DeployPlanDialog";
+import DomainStatusBadge from "@/components/DomainStatusBadge";
 
 export default function Dashboard() {
-  const { data: clients, isLoading, refetch } = trpc.clients.list.useQuery();
+  const { data: clients, isLoading, refetch } = trpc.clients.list.useQuery(undefined, {
+    refetchInterval: 10000,
+  });
   const deployMutation = trpc.clients.deploy.useMutation();
   const deleteMutation = trpc.clients.delete.useMutation();
+  const [watching, setWatching] = useState<{ clientId: string; deploymentId?: string } | null>(null);
+  const [planning, setPlanning] = useState<{ clientId: string; name: string } | null>(null);
 
   const handleDeploy = async (clientId: string) => {
-    if (confirm("Deploy this client to Railway?")) {
-      try {
-        await deployMutation.mutateAsync({ clientId });
-        alert("Deployment started successfully!");
-        refetch();
-      } catch (error) {
-        alert(`Deployment failed: ${error}`);
-      }
+    try {
+      const { deploymentId } = await deployMutation.mutateAsync({ clientId });
+      setPlanning(null);
+      setWatching({ clientId, deploymentId });
+      refetch();
+    } catch (error) {
+      alert(`Deployment failed: ${error}`);
     }
   };
 
@@ -41,7 +59,10 @@ export default function Dashboard() {
       case "deploying":
         return "bg-yellow-500";
       case "failed":
+      case "crashed":
         return "bg-red-500";
+      case "sleeping":
+        return "bg-blue-400";
       default:
         return "bg-gray-500";
     }
@@ -52,8 +73,10 @@ export default function Dashboard() {
   }
 
   const activeClients = clients?.filter((c) => c.status === "active").length || 0;
-  const inactiveClients = clients?.filter((c) => c.status === "inactive").length || 0;
-  const failedClients = clients?.filter((c) => c.status === "failed").length || 0;
+  const inactiveClients =
+    clients?.filter((c) => ["inactive", "sleeping", "removed"].includes(c.status)).length || 0;
+  const failedClients =
+    clients?.filter((c) => c.status === "failed" || c.status === "crashed").length || 0;
 
   return (
     <div className="p-8 space-y-8">
@@ -63,12 +86,38 @@ export default function Dashboard() {
           <h1 className="text-3xl font-bold">Admin Portal</h1>
           <p className="text-muted-foreground">Manage LendPro client deployments</p>
         </div>
-        <Link href="/clients/create">
-          <Button>
-            <Plus className="w-4 h-4" />
-            New Client
-          </Button>
-        </Link>
+        <div className="flex gap-2">
+          <Link href="/railway-accounts">
+            <Button variant="outline">
+              <TrainFront className="w-4 h-4" />
+              Railway Accounts
+            </Button>
+          </Link>
+          <Link href="/releases">
+            <Button variant="outline">
+              <Tag className="w-4 h-4" />
+              Releases
+            </Button>
+          </Link>
+          <Link href="/rollouts">
+            <Button variant="outline">
+              <Rocket className="w-4 h-4" />
+              Rollouts
+            </Button>
+          </Link>
+          <Link href="/clients/import">
+            <Button variant="outline">
+              <Download className="w-4 h-4" />
+              Import
+            </Button>
+          </Link>
+          <Link href="/clients/create">
+            <Button>
+              <Plus className="w-4 h-4" />
+              New Client
+            </Button>
+          </Link>
+        </div>
       </div>
 
       {/* Stats */}
@@ -93,6 +142,26 @@ export default function Dashboard() {
         </Card>
       </div>
 
+      {watching && (
+        <DeploymentProgress
+          key={watching.deploymentId || watching.clientId}
+          clientId={watching.clientId}
+          deploymentId={watching.deploymentId}
+          onClose={() => setWatching(null)}
+        />
+      )}
+
+      {planning && (
+        <DeployPlanDialog
+          clientId={planning.clientId}
+          clientName={planning.name}
+          open
+          onOpenChange={(open) => !open && setPlanning(null)}
+          onConfirm={() => handleDeploy(planning.clientId)}
+          deploying={deployMutation.isPending}
+        />
+      )}
+
       {/* Clients Grid */}
       <div>
         <h2 className="text-2xl font-bold mb-4">Clients</h2>
@@ -103,7 +172,18 @@ export default function Dashboard() {
                 <div className="flex justify-between items-start">
                   <div>
                     <CardTitle>{client.name}</CardTitle>
-                    <CardDescription>{client.domain}</CardDescription>
+                    {client.domains.length > 0 ? (
+                      <div className="space-y-1 mt-1">
+                        {client.domains.map((domain) => (
+                          <div key={domain.id} className="flex items-center gap-2 text-sm">
+                            <span className="text-muted-foreground">{domain.domain}</span>
+                            <DomainStatusBadge domain={domain} />
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <CardDescription>{client.domain}</CardDescription>
+                    )}
                   </div>
                   <div className={`w-3 h-3 rounded-full ${getStatusColor(client.status)}`} />
                 </div>
@@ -114,6 +194,12 @@ export default function Dashboard() {
                     <span className="font-medium">Status:</span>{" "}
                     <span className="capitalize">{client.status}</span>
                   </div>
+                  {client.configDrift && (
+                    <div className="text-sm text-yellow-700 flex items-center gap-1">
+                      <AlertTriangle className="w-3 h-3" />
+                      Config drift: {JSON.parse(client.configDrift).length} variable(s) differ on Railway
+                    </div>
+                  )}
                   {client.serviceUrl && (
                     <div className="text-sm">
                       <a
@@ -137,14 +223,24 @@ export default function Dashboard() {
                         Details
                       </Button>
                     </Link>
-                    {client.status === "inactive" && (
+                    {client.status === "deploying" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setWatching({ clientId: client.id })}
+                      >
+                        <Activity className="w-3 h-3" />
+                        Progress
+                      </Button>
+                    )}
+                    {client.status !== "deploying" && (
                       <Button
                         size="sm"
-                        onClick={() => handleDeploy(client.id)}
-                        disabled={deployMutation.isLoading}
+                        onClick={() => setPlanning({ clientId: client.id, name: client.name })}
+                        disabled={deployMutation.isPending}
                       >
                         <RefreshCw className="w-3 h-3" />
-                        Deploy
+                        {client.railwayProjectId ? "Redeploy" : "Deploy"}
                       </Button>
                     )}
                     <Button
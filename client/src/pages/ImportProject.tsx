@@ -0,0 +1,476 @@
+import { useEffect, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Link, useLocation } from "wouter";
+import { AlertTriangle, ArrowLeft, Download } from "lucide-react";
+
+type ImportForm = {
+  name: string;
+  domain: string;
+  lendpro: {
+    apiUrl: string;
+    username: string;
+    password: string;
+    storeId: string;
+    salesId: string;
+    salesName: string;
+  };
+  branding: { logoUrl: string; primaryColor: string; secondaryColor: string; companyName: string };
+  features: { cartOnly: boolean };
+  visualizer: { enabled: boolean; embedCode: string; autoSyncApiKey: string };
+};
+
+export default function ImportProject() {
+  const [, setLocation] = useLocation();
+  const [accountId, setAccountId] = useState("");
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [serviceId, setServiceId] = useState("");
+  const [clientId, setClientId] = useState("");
+  const [formData, setFormData] = useState<ImportForm | null>(null);
+
+  const { data: railwayAccounts } = trpc.railwayAccounts.list.useQuery();
+  const { data: clients } = trpc.clients.list.useQuery();
+  const {
+    data: projects,
+    isLoading: projectsLoading,
+    error: projectsError,
+  } = trpc.railwayImport.projects.useQuery({ railwayAccountId: accountId || null });
+  const { data: preview, error: previewError } = trpc.railwayImport.preview.useQuery(
+    { railwayAccountId: accountId || null, projectId: projectId!, serviceId: serviceId || undefined },
+    { enabled: !!projectId, retry: false }
+  );
+  const importMutation = trpc.railwayImport.import.useMutation();
+
+  const project = projects?.find((project) => project.id === projectId);
+  // Only clients without a Railway project can take an imported one
+  const linkableClients = clients?.filter((client) => !client.railwayProjectId && !client.railwayOrphanedProjectId);
+
+  // Pre-fill the form from the service's variables
+  useEffect(() => {
+    if (!preview) return;
+    const { lendpro, branding, features, visualizer } = preview.config;
+    setFormData({
+      name: preview.projectName,
+      domain: preview.domains[0] || "",
+      lendpro,
+      branding: {
+        logoUrl: branding.logoUrl || "",
+        primaryColor: branding.primaryColor || "",
+        secondaryColor: branding.secondaryColor || "",
+        companyName: branding.companyName || "",
+      },
+      features,
+      visualizer: {
+        enabled: visualizer.enabled,
+        embedCode: visualizer.embedCode || "",
+        autoSyncApiKey: visualizer.autoSyncApiKey || "",
+      },
+    });
+  }, [preview]);
+
+  const selectProject = (id: string | null) => {
+    setProjectId(id);
+    setServiceId("");
+    setFormData(null);
+  };
+
+  const updateField = (path: string, value: any) => {
+    setFormData((prev) => {
+      if (!prev) return prev;
+      const keys = path.split(".");
+      const newData = { ...prev };
+      let current: any = newData;
+
+      for (let i = 0; i < keys.length - 1; i++) {
+        current[keys[i]] = { ...current[keys[i]] };
+        current = current[keys[i]];
+      }
+
+      current[keys[keys.length - 1]] = value;
+      return newData;
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!preview || !formData) return;
+
+    const { name, domain, branding, visualizer, ...config } = formData;
+    try {
+      const result = await importMutation.mutateAsync({
+        railwayAccountId: accountId || null,
+        projectId: preview.projectId,
+        serviceId: preview.serviceId,
+        ...(clientId ? { clientId } : { name: name.trim(), domain: domain.trim() || undefined }),
+        config: {
+          ...config,
+          branding: {
+            logoUrl: branding.logoUrl || undefined,
+            primaryColor: branding.primaryColor || undefined,
+            secondaryColor: branding.secondaryColor || undefined,
+            companyName: branding.companyName || undefined,
+          },
+          visualizer: {
+            enabled: visualizer.enabled,
+            embedCode: visualizer.embedCode || undefined,
+            autoSyncApiKey: visualizer.autoSyncApiKey || undefined,
+          },
+        },
+      });
+      setLocation(`/clients/${result.clientId}`);
+    } catch (error) {
+      alert(`Failed to import project: ${error}`);
+    }
+  };
+
+  return (
+    <div className="p-8 max-w-4xl mx-auto space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" onClick={() => setLocation("/")} size="icon">
+          <ArrowLeft className="w-4 h-4" />
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">Import from Railway</h1>
+          <p className="text-muted-foreground">Manage a storefront that was set up by hand in Railway</p>
+        </div>
+      </div>
+
+      {/* Projects */}
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-start">
+            <div>
+              <CardTitle>Projects</CardTitle>
+              <CardDescription>Projects the Railway account can see</CardDescription>
+            </div>
+            <select
+              className="px-3 py-2 border rounded-md text-sm"
+              value={accountId}
+              onChange={(e) => {
+                setAccountId(e.target.value);
+                selectProject(null);
+              }}
+            >
+              <option value="">Default account</option>
+              {railwayAccounts?.map((account) => (
+                <option key={account.id} value={account.id}>
+                  {account.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {projectsLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : projectsError ? (
+            <p className="text-sm text-red-600">{projectsError.message}</p>
+          ) : !projects || projects.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No projects found</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left">
+                  <th className="py-2">Project</th>
+                  <th className="py-2">Services</th>
+                  <th className="py-2">Client</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {projects.map((project) => (
+                  <tr key={project.id} className={`border-b ${project.id === projectId ? "bg-gray-100" : ""}`}>
+                    <td className="py-2 font-medium">{project.name}</td>
+                    <td className="py-2">{project.services.map((service) => service.name).join(", ") || "-"}</td>
+                    <td className="py-2">
+                      {project.clientId ? (
+                        <Link href={`/clients/${project.clientId}`} className="text-blue-600 hover:underline">
+                          {project.clientName}
+                        </Link>
+                      ) : (
+                        <span className="text-muted-foreground">Not managed</span>
+                      )}
+                    </td>
+                    <td className="py-2 text-right">
+                      {!project.clientId && (
+                        <Button variant="outline" size="sm" onClick={() => selectProject(project.id)}>
+                          Select
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Import */}
+      {project && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Import {project.name}</CardTitle>
+            <CardDescription>Pre-filled from the service's environment variables; review before importing</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4 text-sm">
+            <div>
+              <label className="block text-sm font-medium mb-1">Storefront service</label>
+              <select
+                className="w-full px-3 py-2 border rounded-md"
+                value={serviceId || preview?.serviceId || ""}
+                onChange={(e) => {
+                  setServiceId(e.target.value);
+                  setFormData(null);
+                }}
+              >
+                <option value="">Choose a service</option>
+                {project.services.map((service) => (
+                  <option key={service.id} value={service.id}>
+                    {service.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {previewError && <p className="text-red-600">{previewError.message}</p>}
+
+            {preview && formData && (
+              <form onSubmit={handleSubmit} className="space-y-6">
+                {(preview.missing.length > 0 || preview.unmanaged.length > 0 || preview.warnings.length > 0) && (
+                  <div className="border border-yellow-300 bg-yellow-50 rounded-md p-3 space-y-1 text-yellow-800">
+                    <div className="font-medium flex items-center gap-1">
+                      <AlertTriangle className="w-4 h-4" />
+                      Check before importing
+                    </div>
+                    {preview.missing.length > 0 && <div>Not set on the service: {preview.missing.join(", ")}</div>}
+                    {preview.unmanaged.length > 0 && (
+                      <div>
+                        Not managed by the portal and removed on the next deployment:{" "}
+                        <span className="font-mono">{preview.unmanaged.join(", ")}</span>
+                      </div>
+                    )}
+                    {preview.warnings.map((warning) => (
+                      <div key={warning}>{warning}</div>
+                    ))}
+                  </div>
+                )}
+
+                {/* Client */}
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Client</label>
+                    <select
+                      className="w-full px-3 py-2 border rounded-md"
+                      value={clientId}
+                      onChange={(e) => setClientId(e.target.value)}
+                    >
+                      <option value="">New client</option>
+                      {linkableClients?.map((client) => (
+                        <option key={client.id} value={client.id}>
+                          {client.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  {!clientId && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium mb-1">Client Name *</label>
+                        <input
+                          type="text"
+                          required
+                          className="w-full px-3 py-2 border rounded-md"
+                          value={formData.name}
+                          onChange={(e) => updateField("name", e.target.value)}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium mb-1">Primary Domain</label>
+                        <input
+                          type="text"
+                          className="w-full px-3 py-2 border rounded-md"
+                          value={formData.domain}
+                          onChange={(e) => updateField("domain", e.target.value)}
+                          placeholder={preview.serviceUrl || "acme.tredfi.com"}
+                        />
+                      </div>
+                    </div>
+                  )}
+                  {preview.domains.length > 0 && (
+                    <div className="text-muted-foreground">
+                      Custom domains on the service, kept with the client: {preview.domains.join(", ")}
+                    </div>
+                  )}
+                </div>
+
+                {/* LendPro */}
+                <div className="space-y-4">
+                  <h3 className="font-medium">LendPro Credentials</h3>
+                  <div>
+                    <label className="block text-sm font-medium mb-1">API URL</label>
+                    <input
+                      type="url"
+                      className="w-full px-3 py-2 border rounded-md"
+                      value={formData.lendpro.apiUrl}
+                      onChange={(e) => updateField("lendpro.apiUrl", e.target.value)}
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Username *</label>
+                      <input
+                        type="text"
+                        required
+                        className="w-full px-3 py-2 border rounded-md"
+                        value={formData.lendpro.username}
+                        onChange={(e) => updateField("lendpro.username", e.target.value)}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Password *</label>
+                      <input
+                        type="password"
+                        required
+                        className="w-full px-3 py-2 border rounded-md"
+                        value={formData.lendpro.password}
+                        onChange={(e) => updateField("lendpro.password", e.target.value)}
+                      />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Store ID *</label>
+                      <input
+                        type="text"
+                        required
+                        className="w-full px-3 py-2 border rounded-md"
+                        value={formData.lendpro.storeId}
+                        onChange={(e) => updateField("lendpro.storeId", e.target.value)}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Sales ID *</label>
+                      <input
+                        type="text"
+                        required
+                        className="w-full px-3 py-2 border rounded-md"
+                        value={formData.lendpro.salesId}
+                        onChange={(e) => updateField("lendpro.salesId", e.target.value)}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Sales Name *</label>
+                      <input
+                        type="text"
+                        required
+                        className="w-full px-3 py-2 border rounded-md"
+                        value={formData.lendpro.salesName}
+                        onChange={(e) => updateField("lendpro.salesName", e.target.value)}
+                      />
+                    </div>
+                  </div>
+                </div>
+
+                {/* Branding */}
+                <div className="space-y-4">
+                  <h3 className="font-medium">Branding</h3>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Company Name</label>
+                      <input
+                        type="text"
+                        className="w-full px-3 py-2 border rounded-md"
+                        value={formData.branding.companyName}
+                        onChange={(e) => updateField("branding.companyName", e.target.value)}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Logo URL</label>
+                      <input
+                        type="text"
+                        className="w-full px-3 py-2 border rounded-md"
+                        value={formData.branding.logoUrl}
+                        onChange={(e) => updateField("branding.logoUrl", e.target.value)}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Primary Color</label>
+                      <input
+                        type="text"
+                        className="w-full px-3 py-2 border rounded-md font-mono"
+                        value={formData.branding.primaryColor}
+                        onChange={(e) => updateField("branding.primaryColor", e.target.value)}
+                        placeholder="#2563eb"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Secondary Color</label>
+                      <input
+                        type="text"
+                        className="w-full px-3 py-2 border rounded-md font-mono"
+                        value={formData.branding.secondaryColor}
+                        onChange={(e) => updateField("branding.secondaryColor", e.target.value)}
+                      />
+                    </div>
+                  </div>
+                </div>
+
+                {/* Visualizer and Features */}
+                <div className="space-y-4">
+                  <h3 className="font-medium">Visualizer and Features</h3>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      className="w-4 h-4"
+                      checked={formData.visualizer.enabled}
+                      onChange={(e) => updateField("visualizer.enabled", e.target.checked)}
+                    />
+                    Visualizer enabled
+                  </label>
+                  {formData.visualizer.enabled && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium mb-1">Embed Code</label>
+                        <input
+                          type="text"
+                          className="w-full px-3 py-2 border rounded-md font-mono"
+                          value={formData.visualizer.embedCode}
+                          onChange={(e) => updateField("visualizer.embedCode", e.target.value)}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium mb-1">AutoSync API Key</label>
+                        <input
+                          type="text"
+                          className="w-full px-3 py-2 border rounded-md font-mono"
+                          value={formData.visualizer.autoSyncApiKey}
+                          onChange={(e) => updateField("visualizer.autoSyncApiKey", e.target.value)}
+                        />
+                      </div>
+                    </div>
+                  )}
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      className="w-4 h-4"
+                      checked={formData.features.cartOnly}
+                      onChange={(e) => updateField("features.cartOnly", e.target.checked)}
+                    />
+                    Cart-only mode
+                  </label>
+                </div>
+
+                <Button type="submit" disabled={importMutation.isPending}>
+                  <Download className="w-4 h-4" />
+                  Import Project
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
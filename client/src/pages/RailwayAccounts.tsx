@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { formatDateTime } from "@/lib/utils";
+import { useLocation } from "wouter";
+import { useAuth } from "@/contexts/AuthContext";
+import { ArrowLeft, KeyRound, Plus, Trash2 } from "lucide-react";
+
+export default function RailwayAccounts() {
+  const [, setLocation] = useLocation();
+  const { user } = useAuth();
+  const canManage = user?.role === "super_admin";
+
+  const { data: accounts, isLoading, refetch } = trpc.railwayAccounts.list.useQuery();
+  const createMutation = trpc.railwayAccounts.create.useMutation();
+  const updateMutation = trpc.railwayAccounts.update.useMutation();
+  const deleteMutation = trpc.railwayAccounts.delete.useMutation();
+
+  const [formData, setFormData] = useState({ name: "", apiToken: "", teamId: "" });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      await createMutation.mutateAsync({
+        name: formData.name.trim(),
+        apiToken: formData.apiToken.trim(),
+        teamId: formData.teamId.trim() || undefined,
+      });
+      setFormData({ name: "", apiToken: "", teamId: "" });
+      refetch();
+    } catch (error) {
+      alert(`Failed to add account: ${error}`);
+    }
+  };
+
+  const handleReplaceToken = async (accountId: string, name: string) => {
+    const apiToken = prompt(`New API token for ${name}`);
+    if (!apiToken?.trim()) return;
+
+    try {
+      await updateMutation.mutateAsync({ accountId, apiToken: apiToken.trim() });
+      alert("Token replaced");
+    } catch (error) {
+      alert(`Failed to replace token: ${error}`);
+    }
+  };
+
+  const handleDelete = async (accountId: string, name: string) => {
+    if (!confirm(`Remove the Railway account ${name}?`)) return;
+
+    try {
+      await deleteMutation.mutateAsync({ accountId });
+      refetch();
+    } catch (error) {
+      alert(`Failed to remove account: ${error}`);
+    }
+  };
+
+  return (
+    <div className="p-8 max-w-4xl mx-auto space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" onClick={() => setLocation("/")} size="icon">
+          <ArrowLeft className="w-4 h-4" />
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">Railway Accounts</h1>
+          <p className="text-muted-foreground">
+            Accounts and teams clients can be deployed to; clients without one use the default account
+          </p>
+        </div>
+      </div>
+
+      {/* Accounts */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Accounts</CardTitle>
+          <CardDescription>Tokens are stored encrypted and never shown again</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : !accounts || accounts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No accounts yet; every client uses the default account</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left">
+                  <th className="py-2">Name</th>
+                  <th className="py-2">Team</th>
+                  <th className="py-2">Clients</th>
+                  <th className="py-2">Added</th>
+                  {canManage && <th className="py-2"></th>}
+                </tr>
+              </thead>
+              <tbody>
+                {accounts.map((account) => (
+                  <tr key={account.id} className="border-b">
+                    <td className="py-2 font-medium">{account.name}</td>
+                    <td className="py-2">
+                      {account.teamId ? (
+                        <span className="font-mono text-xs">{account.teamId}</span>
+                      ) : (
+                        <span className="text-muted-foreground">Personal</span>
+                      )}
+                    </td>
+                    <td className="py-2">{account.clientCount}</td>
+                    <td className="py-2">{formatDateTime(account.createdAt)}</td>
+                    {canManage && (
+                      <td className="py-2 text-right space-x-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleReplaceToken(account.id, account.name)}
+                          disabled={updateMutation.isPending}
+                        >
+                          <KeyRound className="w-3 h-3" />
+                          Replace token
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(account.id, account.name)}
+                          disabled={deleteMutation.isPending || account.clientCount > 0}
+                        >
+                          <Trash2 className="w-3 h-3" />
+                          Remove
+                        </Button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add Account */}
+      {canManage && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Add Account</CardTitle>
+            <CardDescription>
+              Use an account token, or a team token together with the team's ID to create projects in that team
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">Name *</label>
+                <input
+                  type="text"
+                  required
+                  className="w-full px-3 py-2 border rounded-md"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="Agency workspace"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">API Token *</label>
+                <input
+                  type="password"
+                  required
+                  className="w-full px-3 py-2 border rounded-md font-mono"
+                  value={formData.apiToken}
+                  onChange={(e) => setFormData({ ...formData, apiToken: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Team ID</label>
+                <input
+                  type="text"
+                  className="w-full px-3 py-2 border rounded-md font-mono"
+                  value={formData.teamId}
+                  onChange={(e) => setFormData({ ...formData, teamId: e.target.value })}
+                  placeholder="Leave empty for the token owner's personal workspace"
+                />
+              </div>
+              <Button type="submit" disabled={createMutation.isPending}>
+                <Plus className="w-4 h-4" />
+                Add Account
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
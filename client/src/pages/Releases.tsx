@@ -0,0 +1,297 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { formatDateTime } from "@/lib/utils";
+import { Link, useLocation } from "wouter";
+import { ArrowLeft, ExternalLink, RefreshCw, Rocket } from "lucide-react";
+
+// Clients in these states can be upgraded to the latest release
+const UPGRADABLE_STATES = ["behind", "diverged", "unknown"];
+
+const STATE_LABELS: Record<string, string> = {
+  current: "Up to date",
+  behind: "Behind",
+  ahead: "Ahead",
+  diverged: "Diverged",
+  custom_source: "Custom source",
+  not_deployed: "Not deployed",
+  unknown: "Unknown",
+};
+
+export default function Releases() {
+  const [, setLocation] = useLocation();
+  const [refresh, setRefresh] = useState(false);
+  const { data, isLoading, error, refetch, isFetching } = trpc.releases.fleet.useQuery({ refresh });
+  const campaignMutation = trpc.releases.startCampaign.useMutation();
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const [formData, setFormData] = useState({
+    name: "",
+    canarySize: 1,
+    waveSize: 5,
+    concurrency: 2,
+    failureThreshold: 20,
+  });
+
+  const release = data?.release;
+  const clients = data?.clients || [];
+  const behind = clients.filter((client) => client.state === "behind" || client.state === "diverged");
+
+  const handleRefresh = () => {
+    if (refresh) {
+      refetch();
+    } else {
+      setRefresh(true);
+    }
+  };
+
+  const toggleClient = (clientId: string) => {
+    setSelected((prev) =>
+      prev.includes(clientId) ? prev.filter((id) => id !== clientId) : [...prev, clientId]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!release) return;
+
+    if (!confirm(`Deploy ${release.tag} to ${selected.length} client(s) in waves?`)) return;
+
+    try {
+      await campaignMutation.mutateAsync({
+        ...formData,
+        name: formData.name.trim() || `Upgrade to ${release.tag}`,
+        clientIds: selected,
+      });
+      setLocation("/rollouts");
+    } catch (error) {
+      alert(`Failed to start upgrade campaign: ${error}`);
+    }
+  };
+
+  const getStateColor = (state: string) => {
+    switch (state) {
+      case "current":
+      case "ahead":
+        return "text-green-600";
+      case "behind":
+      case "diverged":
+        return "text-yellow-600";
+      default:
+        return "text-gray-600";
+    }
+  };
+
+  return (
+    <div className="p-8 max-w-5xl mx-auto space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" onClick={() => setLocation("/")} size="icon">
+          <ArrowLeft className="w-4 h-4" />
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">Storefront Releases</h1>
+          <p className="text-muted-foreground">Which release every client runs, and upgrade campaigns</p>
+        </div>
+      </div>
+
+      {/* Latest Release */}
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-start">
+            <div>
+              <CardTitle>Latest Release</CardTitle>
+              <CardDescription>
+                {behind.length > 0
+                  ? `${behind.length} client(s) behind the latest release`
+                  : "Compared with the commit each client last deployed"}
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleRefresh} disabled={isFetching}>
+              <RefreshCw className={`w-3 h-3 ${isFetching ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="text-sm">
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading...</p>
+          ) : error ? (
+            <p className="text-red-600">{error.message}</p>
+          ) : !release ? (
+            <p className="text-muted-foreground">The storefront repo has no published release</p>
+          ) : (
+            <div className="space-y-1">
+              <div>
+                <a
+                  href={release.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium text-blue-600 hover:underline inline-flex items-center gap-1"
+                >
+                  {release.name} <ExternalLink className="w-3 h-3" />
+                </a>
+              </div>
+              <div>
+                <span className="font-medium">Version:</span> {release.tag}{" "}
+                <span className="font-mono text-xs">({release.commitSha.slice(0, 7)})</span>
+              </div>
+              {release.publishedAt && (
+                <div>
+                  <span className="font-medium">Published:</span> {formatDateTime(release.publishedAt)}
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Fleet */}
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-start">
+            <div>
+              <CardTitle>Fleet</CardTitle>
+              <CardDescription>Select the clients to upgrade</CardDescription>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setSelected(behind.map((client) => client.clientId))}
+              disabled={behind.length === 0}
+            >
+              Select all behind
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {clients.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No clients yet</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left">
+                  <th className="py-2 w-8"></th>
+                  <th className="py-2">Client</th>
+                  <th className="py-2">Running</th>
+                  <th className="py-2">Last deployed</th>
+                  <th className="py-2">Release</th>
+                </tr>
+              </thead>
+              <tbody>
+                {clients.map((client) => (
+                  <tr key={client.clientId} className="border-b">
+                    <td className="py-2">
+                      <input
+                        type="checkbox"
+                        className="w-4 h-4"
+                        checked={selected.includes(client.clientId)}
+                        onChange={() => toggleClient(client.clientId)}
+                        disabled={!UPGRADABLE_STATES.includes(client.state)}
+                      />
+                    </td>
+                    <td className="py-2">
+                      <Link href={`/clients/${client.clientId}`} className="text-blue-600 hover:underline">
+                        {client.name}
+                      </Link>
+                    </td>
+                    <td className="py-2">
+                      {client.deployedVersion || "-"}
+                      {client.deployedCommitSha && (
+                        <span className="font-mono text-xs"> ({client.deployedCommitSha.slice(0, 7)})</span>
+                      )}
+                    </td>
+                    <td className="py-2">
+                      {client.lastDeployedAt ? formatDateTime(client.lastDeployedAt) : "-"}
+                    </td>
+                    <td className={`py-2 ${getStateColor(client.state)}`}>
+                      {STATE_LABELS[client.state]}
+                      {client.state === "behind" && client.behindBy ? ` by ${client.behindBy} commit(s)` : ""}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Upgrade Campaign */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Upgrade Campaign</CardTitle>
+          <CardDescription>
+            Deploys {release ? release.tag : "the latest release"} to {selected.length} selected client(s) as a
+            fleet rollout, canary wave first
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium mb-1">Name</label>
+              <input
+                type="text"
+                className="w-full px-3 py-2 border rounded-md"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder={release ? `Upgrade to ${release.tag}` : ""}
+              />
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">Canary size</label>
+                <input
+                  type="number"
+                  min={1}
+                  className="w-full px-3 py-2 border rounded-md"
+                  value={formData.canarySize}
+                  onChange={(e) => setFormData({ ...formData, canarySize: parseInt(e.target.value) || 1 })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Wave size</label>
+                <input
+                  type="number"
+                  min={1}
+                  className="w-full px-3 py-2 border rounded-md"
+                  value={formData.waveSize}
+                  onChange={(e) => setFormData({ ...formData, waveSize: parseInt(e.target.value) || 1 })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Concurrency</label>
+                <input
+                  type="number"
+                  min={1}
+                  className="w-full px-3 py-2 border rounded-md"
+                  value={formData.concurrency}
+                  onChange={(e) => setFormData({ ...formData, concurrency: parseInt(e.target.value) || 1 })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Failure threshold (%)</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  className="w-full px-3 py-2 border rounded-md"
+                  value={formData.failureThreshold}
+                  onChange={(e) =>
+                    setFormData({ ...formData, failureThreshold: parseInt(e.target.value) || 0 })
+                  }
+                />
+              </div>
+            </div>
+            <Button
+              type="submit"
+              disabled={campaignMutation.isPending || !release || selected.length === 0}
+            >
+              <Rocket className="w-4 h-4" />
+              Start Upgrade
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,311 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { formatDateTime } from "@/lib/utils";
+import { Link, useLocation } from "wouter";
+import { ArrowLeft, Rocket, Square } from "lucide-react";
+
+type SelectableStatus = "active" | "inactive" | "failed" | "crashed" | "sleeping";
+
+const SELECTABLE_STATUSES: SelectableStatus[] = ["active", "inactive", "failed", "crashed", "sleeping"];
+
+export default function Rollouts() {
+  const [, setLocation] = useLocation();
+  const { data: rollouts, refetch } = trpc.rollouts.list.useQuery(undefined, {
+    refetchInterval: 10000,
+  });
+  const createMutation = trpc.rollouts.create.useMutation();
+  const cancelMutation = trpc.rollouts.cancel.useMutation();
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const [formData, setFormData] = useState({
+    name: "",
+    statuses: ["active"] as SelectableStatus[],
+    tags: "",
+    canarySize: 1,
+    waveSize: 5,
+    concurrency: 2,
+    failureThreshold: 20,
+  });
+
+  const tags = formData.tags
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+  const { data: selected } = trpc.rollouts.preview.useQuery({
+    statuses: formData.statuses,
+    tags,
+  }, { enabled: formData.statuses.length > 0 });
+
+  const toggleStatus = (status: SelectableStatus) => {
+    setFormData((prev) => ({
+      ...prev,
+      statuses: prev.statuses.includes(status)
+        ? prev.statuses.filter((s) => s !== status)
+        : [...prev.statuses, status],
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!confirm(`Redeploy ${selected?.length || 0} client(s) in waves?`)) return;
+
+    try {
+      const { rolloutId } = await createMutation.mutateAsync({ ...formData, tags });
+      setExpanded(rolloutId);
+      setFormData((prev) => ({ ...prev, name: "" }));
+      refetch();
+    } catch (error) {
+      alert(`Failed to start rollout: ${error}`);
+    }
+  };
+
+  const handleCancel = async (rolloutId: string) => {
+    if (confirm("Cancel this rollout? Deployments already running will finish.")) {
+      try {
+        await cancelMutation.mutateAsync({ rolloutId });
+        refetch();
+      } catch (error) {
+        alert(`Failed to cancel rollout: ${error}`);
+      }
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case "completed":
+      case "success":
+        return "text-green-600";
+      case "running":
+      case "pending":
+      case "building":
+      case "deploying":
+        return "text-yellow-600";
+      case "halted":
+      case "failed":
+        return "text-red-600";
+      default:
+        return "text-gray-600";
+    }
+  };
+
+  return (
+    <div className="p-8 max-w-5xl mx-auto space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" onClick={() => setLocation("/")} size="icon">
+          <ArrowLeft className="w-4 h-4" />
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">Fleet Rollouts</h1>
+          <p className="text-muted-foreground">Redeploy many clients in waves, canary first</p>
+        </div>
+      </div>
+
+      {/* New Rollout */}
+      <Card>
+        <CardHeader>
+          <CardTitle>New Rollout</CardTitle>
+          <CardDescription>
+            {selected ? `${selected.length} deployed client(s) selected` : "Select clients by status or tag"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium mb-1">Name *</label>
+              <input
+                type="text"
+                required
+                className="w-full px-3 py-2 border rounded-md"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="Storefront release 2.4"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Client status</label>
+              <div className="flex gap-4">
+                {SELECTABLE_STATUSES.map((status) => (
+                  <label key={status} className="flex items-center gap-2 text-sm capitalize">
+                    <input
+                      type="checkbox"
+                      className="w-4 h-4"
+                      checked={formData.statuses.includes(status)}
+                      onChange={() => toggleStatus(status)}
+                    />
+                    {status}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Tags</label>
+              <input
+                type="text"
+                className="w-full px-3 py-2 border rounded-md"
+                value={formData.tags}
+                onChange={(e) => setFormData({ ...formData, tags: e.target.value })}
+                placeholder="Comma-separated; leave empty for all clients"
+              />
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">Canary size</label>
+                <input
+                  type="number"
+                  min={1}
+                  className="w-full px-3 py-2 border rounded-md"
+                  value={formData.canarySize}
+                  onChange={(e) => setFormData({ ...formData, canarySize: parseInt(e.target.value) || 1 })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Wave size</label>
+                <input
+                  type="number"
+                  min={1}
+                  className="w-full px-3 py-2 border rounded-md"
+                  value={formData.waveSize}
+                  onChange={(e) => setFormData({ ...formData, waveSize: parseInt(e.target.value) || 1 })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Concurrency</label>
+                <input
+                  type="number"
+                  min={1}
+                  className="w-full px-3 py-2 border rounded-md"
+                  value={formData.concurrency}
+                  onChange={(e) => setFormData({ ...formData, concurrency: parseInt(e.target.value) || 1 })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Failure threshold (%)</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  className="w-full px-3 py-2 border rounded-md"
+                  value={formData.failureThreshold}
+                  onChange={(e) =>
+                    setFormData({ ...formData, failureThreshold: parseInt(e.target.value) || 0 })
+                  }
+                />
+              </div>
+            </div>
+            <Button
+              type="submit"
+              disabled={createMutation.isPending || !selected || selected.length === 0}
+            >
+              <Rocket className="w-4 h-4" />
+              Start Rollout
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Rollouts */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Rollouts</CardTitle>
+          <CardDescription>A rollout halts when a wave's failure rate exceeds its threshold</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {!rollouts || rollouts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No rollouts yet</p>
+          ) : (
+            rollouts.map((rollout) => (
+              <div key={rollout.id} className="border rounded-md p-3 text-sm">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <div className="font-medium">{rollout.name}</div>
+                    {rollout.targetVersion && (
+                      <div>
+                        Upgrade to {rollout.targetVersion}{" "}
+                        <span className="font-mono text-xs">({rollout.targetCommitSha?.slice(0, 7)})</span>
+                      </div>
+                    )}
+                    <div className="text-muted-foreground">
+                      {formatDateTime(rollout.createdAt)} ·{" "}
+                      <span className={`capitalize ${getStatusColor(rollout.status)}`}>{rollout.status}</span>{" "}
+                      · wave {rollout.currentWave + 1} of {rollout.waves.length}
+                    </div>
+                    {rollout.errorMessage && <div className="text-red-600">{rollout.errorMessage}</div>}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setExpanded(expanded === rollout.id ? null : rollout.id)}
+                    >
+                      {expanded === rollout.id ? "Hide" : "Details"}
+                    </Button>
+                    {rollout.status === "running" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleCancel(rollout.id)}
+                        disabled={cancelMutation.isPending}
+                      >
+                        <Square className="w-3 h-3" />
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {expanded === rollout.id && <RolloutWaves rolloutId={rollout.id} getStatusColor={getStatusColor} />}
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function RolloutWaves({
+  rolloutId,
+  getStatusColor,
+}: {
+  rolloutId: string;
+  getStatusColor: (status: string) => string;
+}) {
+  const { data } = trpc.rollouts.get.useQuery({ rolloutId }, { refetchInterval: 5000 });
+  const { data: clients } = trpc.clients.list.useQuery();
+
+  if (!data) {
+    return <div className="mt-3 text-muted-foreground">Loading...</div>;
+  }
+
+  const clientName = (clientId: string) =>
+    clients?.find((client) => client.id === clientId)?.name || clientId;
+
+  return (
+    <div className="mt-3 space-y-3">
+      {data.rollout.waves.map((clientIds, wave) => (
+        <div key={wave}>
+          <div className="font-medium mb-1">{wave === 0 ? "Canary" : `Wave ${wave}`}</div>
+          <ul className="space-y-1">
+            {clientIds.map((clientId) => {
+              const deployment = data.deployments.find(
+                (d) => d.clientId === clientId && d.rolloutWave === wave
+              );
+              return (
+                <li key={clientId} className="flex justify-between">
+                  <Link href={`/clients/${clientId}`} className="text-blue-600 hover:underline">
+                    {clientName(clientId)}
+                  </Link>
+                  <span className={`capitalize ${getStatusColor(deployment?.status || "waiting")}`}>
+                    {deployment?.status || "waiting"}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -38,12 +38,27 @@ export const FeatureFlagsSchema = z.object({
   cartOnly: z.boolean().default(false), // Cart only mode (no visualizer)
 }).optional();
 
+export const SourceConfigSchema = z.object({
+  repo: z.string().regex(/^[\w.-]+\/[\w.-]+$/, "Repo must be owner/name").optional(),
+  branch: z.string().min(1).optional(),
+  commitSha: z.string().regex(/^[0-9a-f]{7,40}$/i, "Invalid commit SHA").optional(), // Pin to an exact commit
+}).optional();
+
+export const ResourceConfigSchema = z.object({
+  replicas: z.number().int().min(1).max(20).default(1),
+  memoryGb: z.number().int().min(1).max(32).optional(), // Railway default when not set
+  vCpus: z.number().int().min(1).max(32).optional(),
+  region: z.string().regex(/^[a-z0-9-]+$/, "Invalid region").optional(),
+  sleepWhenIdle: z.boolean().default(false),
+}).optional();
+
 export const RailwayConfigSchema = z.object({
   projectId: z.string().optional(),
   projectUrl: z.string().url().optional(),
   environmentId: z.string().optional(),
   serviceId: z.string().optional(),
-  status: z.enum(["active", "inactive", "deploying", "failed"]).optional(),
+  mysqlServiceId: z.string().optional(),
+  status: z.enum(["active", "inactive", "deploying", "failed", "crashed", "sleeping", "removed"]).optional(),
   lastDeployedAt: z.date().optional(),
 });
 
@@ -55,6 +70,8 @@ export const ClientConfigSchema = z.object({
   branding: BrandingConfigSchema,
   visualizer: VisualizerConfigSchema,
   features: FeatureFlagsSchema,
+  source: SourceConfigSchema, // Defaults to the main lendpro-ecommerce repo and branch
+  resources: ResourceConfigSchema, // Replicas, limits, region and sleep of the web service
   railway: RailwayConfigSchema,
   createdAt: z.date().optional(),
   updatedAt: z.date().optional(),
@@ -65,6 +82,8 @@ export type LendProConfig = z.infer<typeof LendProConfigSchema>;
 export type BrandingConfig = z.infer<typeof BrandingConfigSchema>;
 export type VisualizerConfig = z.infer<typeof VisualizerConfigSchema>;
 export type FeatureFlags = z.infer<typeof FeatureFlagsSchema>;
+export type SourceConfig = z.infer<typeof SourceConfigSchema>;
+export type ResourceConfig = z.infer<typeof ResourceConfigSchema>;
 export type RailwayConfig = z.infer<typeof RailwayConfigSchema>;
 export type ClientConfig = z.infer<typeof ClientConfigSchema>;
 
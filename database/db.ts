@@ -1,12 +1,18 @@
 import { drizzle } from "drizzle-orm/mysql2";
-import { eq, desc, and, gte, lte, sql } from "drizzle-orm";
+import { eq, desc, and, or, gte, lt, lte, isNull, isNotNull, sql, inArray, asc } from "drizzle-orm";
 import {
   clients,
+  railwayAccounts,
   clientLendproConfig,
   clientBranding,
   clientFeatures,
   clientVisualizer,
+  clientDomains,
+  clientPreviews,
+  clientStatusEvents,
+  clientSubscriptions,
   deployments,
+  rollouts,
   clientAnalytics,
   adminUsers,
   sessions,
@@ -15,6 +21,8 @@ import {
   auditLog,
   type Client,
   type InsertClient,
+  type RailwayAccount,
+  type InsertRailwayAccount,
   type ClientLendproConfig,
   type InsertClientLendproConfig,
   type ClientBranding,
@@ -23,8 +31,18 @@ import {
   type InsertClientFeatures,
   type ClientVisualizer,
   type InsertClientVisualizer,
+  type ClientDomain,
+  type InsertClientDomain,
+  type ClientPreview,
+  type InsertClientPreview,
+  type ClientStatusEvent,
+  type InsertClientStatusEvent,
+  type ClientSubscription,
+  type InsertClientSubscription,
   type Deployment,
   type InsertDeployment,
+  type Rollout,
+  type InsertRollout,
   type ClientAnalytics,
   type InsertClientAnalytics,
   type AdminUser,
@@ -151,6 +169,61 @@ export async function updateClient(
   await db.update(clients).set(updates).where(eq(clients.id, clientId));
 }
 
+/**
+ * Update a client only while it still has the expected status.
+ * Returns false if the status changed in the meantime.
+ */
+export async function updateClientIfStatus(
+  clientId: string,
+  expectedStatus: Client["status"],
+  updates: Partial<InsertClient>
+): Promise<boolean> {
+  const db = await getAdminDb();
+  const [result] = await db
+    .update(clients)
+    .set(updates)
+    .where(and(eq(clients.id, clientId), eq(clients.status, expectedStatus)));
+  return result.affectedRows > 0;
+}
+
+/**
+ * Take or renew a client's deployment lock. Succeeds when the lock is free,
+ * expired or already held by `lockId`.
+ */
+export async function acquireClientLock(
+  clientId: string,
+  lockId: string,
+  lockedBy: string | null,
+  expiresAt: Date
+): Promise<boolean> {
+  const db = await getAdminDb();
+  const [result] = await db
+    .update(clients)
+    .set({ deployLockId: lockId, deployLockedBy: lockedBy, deployLockExpiresAt: expiresAt })
+    .where(
+      and(
+        eq(clients.id, clientId),
+        or(
+          isNull(clients.deployLockId),
+          eq(clients.deployLockId, lockId),
+          lt(clients.deployLockExpiresAt, new Date())
+        )
+      )
+    );
+  return result.affectedRows > 0;
+}
+
+/**
+ * Release a client's deployment lock if `lockId` still holds it
+ */
+export async function releaseClientLock(clientId: string, lockId: string): Promise<void> {
+  const db = await getAdminDb();
+  await db
+    .update(clients)
+    .set({ deployLockId: null, deployLockedBy: null, deployLockExpiresAt: null })
+    .where(and(eq(clients.id, clientId), eq(clients.deployLockId, lockId)));
+}
+
 export async function updateClientLendpro(
   clientId: string,
   updates: Partial<InsertClientLendproConfig>
@@ -222,6 +295,54 @@ export async function deleteClient(clientId: string): Promise<void> {
   await db.delete(clients).where(eq(clients.id, clientId));
 }
 
+/**
+ * Railway Accounts
+ */
+export async function createRailwayAccount(account: InsertRailwayAccount): Promise<void> {
+  const db = await getAdminDb();
+  await db.insert(railwayAccounts).values(account);
+}
+
+export async function updateRailwayAccount(
+  accountId: string,
+  updates: Partial<InsertRailwayAccount>
+): Promise<void> {
+  const db = await getAdminDb();
+  await db.update(railwayAccounts).set(updates).where(eq(railwayAccounts.id, accountId));
+}
+
+export async function deleteRailwayAccount(accountId: string): Promise<void> {
+  const db = await getAdminDb();
+  await db.delete(railwayAccounts).where(eq(railwayAccounts.id, accountId));
+}
+
+export async function getRailwayAccount(accountId: string): Promise<RailwayAccount | null> {
+  const db = await getAdminDb();
+  const [account] = await db.select().from(railwayAccounts).where(eq(railwayAccounts.id, accountId));
+  return account || null;
+}
+
+export async function getRailwayAccounts(): Promise<RailwayAccount[]> {
+  const db = await getAdminDb();
+  return await db.select().from(railwayAccounts).orderBy(asc(railwayAccounts.name));
+}
+
+/**
+ * Number of clients assigned to each Railway account, keyed by account id
+ */
+export async function countClientsByRailwayAccount(): Promise<Map<string, number>> {
+  const db = await getAdminDb();
+  const rows = await db
+    .select({
+      accountId: clients.railwayAccountId,
+      count: sql<number>`COUNT(*)`,
+    })
+    .from(clients)
+    .where(isNotNull(clients.railwayAccountId))
+    .groupBy(clients.railwayAccountId);
+  return new Map(rows.map((row) => [row.accountId!, Number(row.count)]));
+}
+
 /**
  * Deployment Operations
  */
@@ -240,6 +361,75 @@ export async function updateDeployment(
   await db.update(deployments).set(updates).where(eq(deployments.id, deploymentId));
 }
 
+export async function getDeployment(deploymentId: string): Promise<Deployment | null> {
+  const db = await getAdminDb();
+  const [deployment] = await db.select().from(deployments).where(eq(deployments.id, deploymentId));
+  return deployment || null;
+}
+
+/**
+ * Deployment that triggered a Railway deployment, for matching webhook events
+ */
+export async function getDeploymentByRailwayId(railwayDeploymentId: string): Promise<Deployment | null> {
+  const db = await getAdminDb();
+  const [deployment] = await db
+    .select()
+    .from(deployments)
+    .where(eq(deployments.railwayDeploymentId, railwayDeploymentId));
+  return deployment || null;
+}
+
+/**
+ * Get queued deployments, oldest first
+ */
+export async function getPendingDeployments(limit: number = 10): Promise<Deployment[]> {
+  const db = await getAdminDb();
+  return await db
+    .select()
+    .from(deployments)
+    .where(eq(deployments.status, "pending"))
+    .orderBy(asc(deployments.startedAt))
+    .limit(limit);
+}
+
+/**
+ * Atomically move a deployment from pending to building.
+ * Returns false if another worker already claimed it.
+ */
+export async function claimDeployment(deploymentId: string): Promise<boolean> {
+  const db = await getAdminDb();
+  const [result] = await db
+    .update(deployments)
+    .set({ status: "building" })
+    .where(and(eq(deployments.id, deploymentId), eq(deployments.status, "pending")));
+  return result.affectedRows > 0;
+}
+
+/**
+ * Cancel a deployment that no worker has picked up yet.
+ * Returns false if it already left the queue.
+ */
+export async function cancelPendingDeployment(deploymentId: string): Promise<boolean> {
+  const db = await getAdminDb();
+  const [result] = await db
+    .update(deployments)
+    .set({ status: "cancelled", completedAt: new Date() })
+    .where(and(eq(deployments.id, deploymentId), eq(deployments.status, "pending")));
+  return result.affectedRows > 0;
+}
+
+/**
+ * Put deployments that were in progress when the server stopped back in the queue
+ */
+export async function requeueInterruptedDeployments(): Promise<number> {
+  const db = await getAdminDb();
+  const [result] = await db
+    .update(deployments)
+    .set({ status: "pending" })
+    .where(inArray(deployments.status, ["building", "deploying"]));
+  return result.affectedRows;
+}
+
 export async function getDeploymentHistory(clientId: string, limit: number = 10): Promise<Deployment[]> {
   const db = await getAdminDb();
   return await db
@@ -250,6 +440,249 @@ export async function getDeploymentHistory(clientId: string, limit: number = 10)
     .limit(limit);
 }
 
+/**
+ * Most recent successful deployment with a configuration snapshot, i.e. the
+ * last known-good state that can be rolled back to
+ */
+export async function getLastSuccessfulDeployment(
+  clientId: string,
+  environment: Deployment["environment"]
+): Promise<Deployment | null> {
+  const db = await getAdminDb();
+  const [deployment] = await db
+    .select()
+    .from(deployments)
+    .where(
+      and(
+        eq(deployments.clientId, clientId),
+        eq(deployments.environment, environment),
+        eq(deployments.status, "success"),
+        isNotNull(deployments.configSnapshot)
+      )
+    )
+    .orderBy(desc(deployments.startedAt))
+    .limit(1);
+  return deployment || null;
+}
+
+/**
+ * Client Domains
+ */
+export async function createClientDomain(domain: InsertClientDomain): Promise<ClientDomain> {
+  const db = await getAdminDb();
+  await db.insert(clientDomains).values(domain);
+  const [created] = await db.select().from(clientDomains).where(eq(clientDomains.id, domain.id));
+  return created;
+}
+
+export async function updateClientDomain(
+  domainId: string,
+  updates: Partial<InsertClientDomain>
+): Promise<void> {
+  const db = await getAdminDb();
+  await db.update(clientDomains).set(updates).where(eq(clientDomains.id, domainId));
+}
+
+export async function deleteClientDomain(domainId: string): Promise<void> {
+  const db = await getAdminDb();
+  await db.delete(clientDomains).where(eq(clientDomains.id, domainId));
+}
+
+export async function getClientDomain(domainId: string): Promise<ClientDomain | null> {
+  const db = await getAdminDb();
+  const [domain] = await db.select().from(clientDomains).where(eq(clientDomains.id, domainId));
+  return domain || null;
+}
+
+export async function getClientDomainByName(domain: string): Promise<ClientDomain | null> {
+  const db = await getAdminDb();
+  const [found] = await db.select().from(clientDomains).where(eq(clientDomains.domain, domain));
+  return found || null;
+}
+
+export async function getClientDomains(clientId: string): Promise<ClientDomain[]> {
+  const db = await getAdminDb();
+  return await db
+    .select()
+    .from(clientDomains)
+    .where(eq(clientDomains.clientId, clientId))
+    .orderBy(asc(clientDomains.createdAt));
+}
+
+export async function getAllClientDomains(): Promise<ClientDomain[]> {
+  const db = await getAdminDb();
+  return await db.select().from(clientDomains).orderBy(asc(clientDomains.createdAt));
+}
+
+/**
+ * Client Previews
+ */
+export async function createClientPreview(preview: InsertClientPreview): Promise<ClientPreview> {
+  const db = await getAdminDb();
+  await db.insert(clientPreviews).values(preview);
+  const [created] = await db.select().from(clientPreviews).where(eq(clientPreviews.id, preview.id));
+  return created;
+}
+
+export async function updateClientPreview(
+  previewId: string,
+  updates: Partial<InsertClientPreview>
+): Promise<void> {
+  const db = await getAdminDb();
+  await db.update(clientPreviews).set(updates).where(eq(clientPreviews.id, previewId));
+}
+
+export async function deleteClientPreview(previewId: string): Promise<void> {
+  const db = await getAdminDb();
+  await db.delete(clientPreviews).where(eq(clientPreviews.id, previewId));
+}
+
+export async function getClientPreview(previewId: string): Promise<ClientPreview | null> {
+  const db = await getAdminDb();
+  const [preview] = await db.select().from(clientPreviews).where(eq(clientPreviews.id, previewId));
+  return preview || null;
+}
+
+export async function getClientPreviews(clientId: string, limit: number = 20): Promise<ClientPreview[]> {
+  const db = await getAdminDb();
+  return await db
+    .select()
+    .from(clientPreviews)
+    .where(eq(clientPreviews.clientId, clientId))
+    .orderBy(desc(clientPreviews.createdAt))
+    .limit(limit);
+}
+
+/**
+ * Previews past their expiry that have not been removed yet. Previews still
+ * deploying are left until their deployment finishes.
+ */
+export async function getExpiredPreviews(now: Date): Promise<ClientPreview[]> {
+  const db = await getAdminDb();
+  return await db
+    .select()
+    .from(clientPreviews)
+    .where(
+      and(
+        lt(clientPreviews.expiresAt, now),
+        inArray(clientPreviews.status, ["active", "failed"])
+      )
+    );
+}
+
+/**
+ * Client Status Events
+ */
+export async function recordClientStatusEvent(event: InsertClientStatusEvent): Promise<void> {
+  const db = await getAdminDb();
+  await db.insert(clientStatusEvents).values(event);
+}
+
+/**
+ * Client Subscriptions
+ */
+export async function subscribeToClient(clientId: string, userId: string): Promise<void> {
+  const db = await getAdminDb();
+  const [existing] = await db
+    .select()
+    .from(clientSubscriptions)
+    .where(and(eq(clientSubscriptions.clientId, clientId), eq(clientSubscriptions.userId, userId)));
+  if (!existing) {
+    await db.insert(clientSubscriptions).values({ clientId, userId });
+  }
+}
+
+export async function unsubscribeFromClient(clientId: string, userId: string): Promise<void> {
+  const db = await getAdminDb();
+  await db
+    .delete(clientSubscriptions)
+    .where(and(eq(clientSubscriptions.clientId, clientId), eq(clientSubscriptions.userId, userId)));
+}
+
+/**
+ * Admins subscribed to a client's deployment failures
+ */
+export async function getClientSubscribers(clientId: string): Promise<AdminUser[]> {
+  const db = await getAdminDb();
+  const subscriptions = await db
+    .select()
+    .from(clientSubscriptions)
+    .where(eq(clientSubscriptions.clientId, clientId));
+  if (subscriptions.length === 0) return [];
+
+  return await db
+    .select()
+    .from(adminUsers)
+    .where(inArray(adminUsers.id, subscriptions.map((subscription) => subscription.userId)));
+}
+
+export async function getClientStatusEvents(
+  clientId: string,
+  limit: number = 20
+): Promise<ClientStatusEvent[]> {
+  const db = await getAdminDb();
+  return await db
+    .select()
+    .from(clientStatusEvents)
+    .where(eq(clientStatusEvents.clientId, clientId))
+    .orderBy(desc(clientStatusEvents.createdAt))
+    .limit(limit);
+}
+
+/**
+ * Rollout Operations
+ */
+export async function createRollout(rollout: InsertRollout): Promise<Rollout> {
+  const db = await getAdminDb();
+  await db.insert(rollouts).values(rollout);
+  const [created] = await db.select().from(rollouts).where(eq(rollouts.id, rollout.id));
+  return created;
+}
+
+export async function updateRollout(
+  rolloutId: string,
+  updates: Partial<InsertRollout>
+): Promise<void> {
+  const db = await getAdminDb();
+  await db.update(rollouts).set(updates).where(eq(rollouts.id, rolloutId));
+}
+
+export async function getRollout(rolloutId: string): Promise<Rollout | null> {
+  const db = await getAdminDb();
+  const [rollout] = await db.select().from(rollouts).where(eq(rollouts.id, rolloutId));
+  return rollout || null;
+}
+
+export async function getRollouts(limit: number = 20): Promise<Rollout[]> {
+  const db = await getAdminDb();
+  return await db
+    .select()
+    .from(rollouts)
+    .orderBy(desc(rollouts.createdAt))
+    .limit(limit);
+}
+
+export async function getRunningRollouts(): Promise<Rollout[]> {
+  const db = await getAdminDb();
+  return await db
+    .select()
+    .from(rollouts)
+    .where(eq(rollouts.status, "running"))
+    .orderBy(asc(rollouts.createdAt));
+}
+
+/**
+ * Get all deployments recorded for a rollout
+ */
+export async function getRolloutDeployments(rolloutId: string): Promise<Deployment[]> {
+  const db = await getAdminDb();
+  return await db
+    .select()
+    .from(deployments)
+    .where(eq(deployments.rolloutId, rolloutId))
+    .orderBy(asc(deployments.startedAt));
+}
+
 /**
  * Analytics Operations
  */
@@ -344,6 +777,35 @@ export async function getAdminUser(openId: string): Promise<AdminUser | null> {
   return user || null;
 }
 
+export async function getAdminUserById(userId: string): Promise<AdminUser | null> {
+  const db = await getAdminDb();
+  const [user] = await db.select().from(adminUsers).where(eq(adminUsers.id, userId));
+  return user || null;
+}
+
+/**
+ * Notifications
+ */
+export async function getNotificationSettings(userId: string): Promise<NotificationSettings | null> {
+  const db = await getAdminDb();
+  const [settings] = await db
+    .select()
+    .from(notificationSettings)
+    .where(eq(notificationSettings.userId, userId));
+  return settings || null;
+}
+
+export async function createNotification(notification: InsertNotification): Promise<number> {
+  const db = await getAdminDb();
+  const [result] = await db.insert(notifications).values(notification);
+  return result.insertId;
+}
+
+export async function updateNotification(id: number, updates: Partial<InsertNotification>): Promise<void> {
+  const db = await getAdminDb();
+  await db.update(notifications).set(updates).where(eq(notifications.id, id));
+}
+
 /**
  * Audit Log Operations
  */
@@ -364,11 +826,17 @@ export async function getAuditLogs(limit: number = 100): Promise<AuditLog[]> {
 // Export schema and types
 export {
   clients,
+  railwayAccounts,
   clientLendproConfig,
   clientBranding,
   clientFeatures,
   clientVisualizer,
+  clientDomains,
+  clientPreviews,
+  clientStatusEvents,
+  clientSubscriptions,
   deployments,
+  rollouts,
   clientAnalytics,
   adminUsers,
   sessions,
@@ -377,6 +845,8 @@ export {
   auditLog,
   type Client,
   type InsertClient,
+  type RailwayAccount,
+  type InsertRailwayAccount,
   type ClientLendproConfig,
   type InsertClientLendproConfig,
   type ClientBranding,
@@ -385,8 +855,18 @@ export {
   type InsertClientFeatures,
   type ClientVisualizer,
   type InsertClientVisualizer,
+  type ClientDomain,
+  type InsertClientDomain,
+  type ClientPreview,
+  type InsertClientPreview,
+  type ClientStatusEvent,
+  type InsertClientStatusEvent,
+  type ClientSubscription,
+  type InsertClientSubscription,
   type Deployment,
   type InsertDeployment,
+  type Rollout,
+  type InsertRollout,
   type ClientAnalytics,
   type InsertClientAnalytics,
   type AdminUser,
@@ -3,6 +3,7 @@ import {
   mysqlEnum,
   mysqlTable,
   text,
+  mediumtext,
   timestamp,
   varchar,
   decimal,
@@ -23,15 +24,68 @@ export const clients = mysqlTable("clients", {
   domain: varchar("domain", { length: 255 }),
   
   // Railway configuration
+  // Account the client's project lives in; null uses RAILWAY_API_TOKEN
+  railwayAccountId: varchar("railway_account_id", { length: 36 }).references(() => railwayAccounts.id),
   railwayProjectId: varchar("railway_project_id", { length: 100 }),
   railwayProjectUrl: varchar("railway_project_url", { length: 500 }),
   railwayEnvironmentId: varchar("railway_environment_id", { length: 100 }),
   railwayServiceId: varchar("railway_service_id", { length: 100 }),
+  railwayMysqlServiceId: varchar("railway_mysql_service_id", { length: 100 }),
+  // Project left behind by a failed first deployment, deleted on the next retry or on client delete
+  railwayOrphanedProjectId: varchar("railway_orphaned_project_id", { length: 100 }),
   serviceUrl: varchar("service_url", { length: 500 }),
   
+  // Staging environment in the same project, created on the first staging deployment
+  railwayStagingEnvironmentId: varchar("railway_staging_environment_id", { length: 100 }),
+  stagingServiceUrl: varchar("staging_service_url", { length: 500 }),
+  stagingDeployedAt: timestamp("staging_deployed_at"),
+  
+  // Source of the web service; null repo/branch use the deployer defaults
+  githubRepo: varchar("github_repo", { length: 255 }),
+  githubBranch: varchar("github_branch", { length: 255 }),
+  // Pin the client to an exact commit instead of the head of its branch
+  githubCommitSha: varchar("github_commit_sha", { length: 40 }),
+  // Storefront commit and release tag running in production, recorded on each successful deployment
+  deployedCommitSha: varchar("deployed_commit_sha", { length: 40 }),
+  deployedVersion: varchar("deployed_version", { length: 50 }),
+  
+  // Railway service settings applied on every production and staging deployment.
+  // Null limits and region leave Railway's defaults in place.
+  numReplicas: int("num_replicas").default(1).notNull(),
+  memoryLimitGb: int("memory_limit_gb"),
+  cpuLimit: int("cpu_limit"), // vCPUs
+  region: varchar("region", { length: 50 }),
+  // Let Railway put the service to sleep when it receives no traffic
+  sleepWhenIdle: boolean("sleep_when_idle").default(false).notNull(),
+  
+  // Free-form labels used to select clients for fleet rollouts (JSON array of strings)
+  tags: text("tags"),
+  
   // Status
-  status: mysqlEnum("status", ["active", "inactive", "deploying", "failed"]).default("inactive").notNull(),
+  // crashed, sleeping and removed are set by the status reconciler from Railway's state
+  status: mysqlEnum("status", [
+    "active",
+    "inactive",
+    "deploying",
+    "failed",
+    "crashed",
+    "sleeping",
+    "removed"
+  ]).default("inactive").notNull(),
   lastDeployedAt: timestamp("last_deployed_at"),
+  // Roll back to the last successful deployment when a redeploy of the active client fails
+  autoRollback: boolean("auto_rollback").default(false).notNull(),
+  
+  // Deployment lock: the deployment holding it, the admin who started it and
+  // when it lapses unless the worker renews it
+  deployLockId: varchar("deploy_lock_id", { length: 36 }),
+  deployLockedBy: varchar("deploy_locked_by", { length: 100 }),
+  deployLockExpiresAt: timestamp("deploy_lock_expires_at"),
+  
+  // Variables that differ between the portal config and the Railway service
+  // (JSON array of DriftedVariable, secrets masked); null when in sync or never checked
+  configDrift: mediumtext("config_drift"),
+  driftCheckedAt: timestamp("drift_checked_at"),
   
   // Metadata
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -42,6 +96,24 @@ export const clients = mysqlTable("clients", {
 export type Client = typeof clients.$inferSelect;
 export type InsertClient = typeof clients.$inferInsert;
 
+/**
+ * Railway accounts and teams (workspaces) that clients can be deployed to
+ */
+export const railwayAccounts = mysqlTable("railway_accounts", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  name: varchar("name", { length: 255 }).notNull(),
+  apiToken: text("api_token").notNull(), // Encrypted
+  // Team new projects are created in; null for the token owner's personal workspace
+  teamId: varchar("team_id", { length: 100 }),
+  
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+  createdBy: varchar("created_by", { length: 100 }),
+});
+
+export type RailwayAccount = typeof railwayAccounts.$inferSelect;
+export type InsertRailwayAccount = typeof railwayAccounts.$inferInsert;
+
 /**
  * LendPro configuration for each client
  */
@@ -122,6 +194,99 @@ export const clientVisualizer = mysqlTable("client_visualizer", {
 export type ClientVisualizer = typeof clientVisualizer.$inferSelect;
 export type InsertClientVisualizer = typeof clientVisualizer.$inferInsert;
 
+/**
+ * Custom domains of each client and their DNS and certificate state on Railway
+ */
+export const clientDomains = mysqlTable("client_domains", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  clientId: varchar("client_id", { length: 36 }).notNull().references(() => clients.id, { onDelete: "cascade" }),
+  domain: varchar("domain", { length: 255 }).notNull().unique(),
+  
+  // Null until the domain has been added to the client's Railway service
+  railwayDomainId: varchar("railway_domain_id", { length: 100 }),
+  dnsRecords: text("dns_records"), // JSON array of DnsRecord the client has to create
+  verificationStatus: mysqlEnum("verification_status", ["pending", "verified", "failed"]).default("pending").notNull(),
+  certificateStatus: mysqlEnum("certificate_status", ["pending", "issuing", "issued", "failed"]).default("pending").notNull(),
+  errorMessage: text("error_message"),
+  lastCheckedAt: timestamp("last_checked_at"),
+  
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+});
+
+export type ClientDomain = typeof clientDomains.$inferSelect;
+export type InsertClientDomain = typeof clientDomains.$inferInsert;
+
+/**
+ * Temporary preview services of a client, built from a storefront branch with
+ * sandbox LendPro credentials and removed once they expire
+ */
+export const clientPreviews = mysqlTable("client_previews", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  clientId: varchar("client_id", { length: 36 }).notNull().references(() => clients.id, { onDelete: "cascade" }),
+  
+  branch: varchar("branch", { length: 255 }).notNull(),
+  // Commit the preview was built from, once resolved
+  commitSha: varchar("commit_sha", { length: 40 }),
+  
+  // Set as soon as each service exists, so an expired or failed preview can be removed.
+  // Every preview has its own database; it never uses the client's.
+  railwayServiceId: varchar("railway_service_id", { length: 100 }),
+  railwayMysqlServiceId: varchar("railway_mysql_service_id", { length: 100 }),
+  serviceUrl: varchar("service_url", { length: 500 }),
+  
+  status: mysqlEnum("status", [
+    "deploying",
+    "active",
+    "failed",
+    "expired",
+    "removed"
+  ]).default("deploying").notNull(),
+  errorMessage: text("error_message"),
+  
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  createdBy: varchar("created_by", { length: 100 }),
+  removedAt: timestamp("removed_at"),
+});
+
+export type ClientPreview = typeof clientPreviews.$inferSelect;
+export type InsertClientPreview = typeof clientPreviews.$inferInsert;
+
+/**
+ * Client status changes detected by the status reconciler
+ */
+export const clientStatusEvents = mysqlTable("client_status_events", {
+  id: int("id").autoincrement().primaryKey(),
+  clientId: varchar("client_id", { length: 36 }).notNull().references(() => clients.id, { onDelete: "cascade" }),
+  
+  fromStatus: varchar("from_status", { length: 20 }).notNull(),
+  toStatus: varchar("to_status", { length: 20 }).notNull(),
+  // Railway deployment status behind the change, e.g. "CRASHED"; null when the project was deleted
+  railwayStatus: varchar("railway_status", { length: 50 }),
+  railwayDeploymentId: varchar("railway_deployment_id", { length: 100 }),
+  reason: text("reason"),
+  
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type ClientStatusEvent = typeof clientStatusEvents.$inferSelect;
+export type InsertClientStatusEvent = typeof clientStatusEvents.$inferInsert;
+
+/**
+ * Admins subscribed to a client's deployment failures
+ */
+export const clientSubscriptions = mysqlTable("client_subscriptions", {
+  id: int("id").autoincrement().primaryKey(),
+  clientId: varchar("client_id", { length: 36 }).notNull().references(() => clients.id, { onDelete: "cascade" }),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => adminUsers.id, { onDelete: "cascade" }),
+  
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type ClientSubscription = typeof clientSubscriptions.$inferSelect;
+export type InsertClientSubscription = typeof clientSubscriptions.$inferInsert;
+
 /**
  * Deployment history
  */
@@ -142,12 +307,50 @@ export const deployments = mysqlTable("deployments", {
     "initial",
     "update",
     "redeploy",
-    "rollback"
+    "rollback",
+    "promote",
+    "preview"
   ]).default("update").notNull(),
   
+  // Railway environment the deployment targeted; previews run as their own
+  // service in the production environment
+  environment: mysqlEnum("environment", ["production", "staging", "preview"]).default("production").notNull(),
+  
   railwayDeploymentId: varchar("railway_deployment_id", { length: 100 }),
-  logs: text("logs"),
+  logs: mediumtext("logs"), // JSON array of DeploymentLogEntry
   errorMessage: text("error_message"),
+  // Post-deploy checks against the service URL (JSON array of SmokeCheckResult)
+  smokeTestResults: text("smoke_test_results"),
+  
+  // Env vars and git ref that were deployed (encrypted JSON DeploymentSnapshot)
+  configSnapshot: mediumtext("config_snapshot"),
+  // For rollbacks and promotions: the deployment whose snapshot was restored
+  sourceDeploymentId: varchar("source_deployment_id", { length: 36 }),
+  // Client status before this deployment started, restored on cancel
+  previousClientStatus: mysqlEnum("previous_client_status", [
+    "active",
+    "inactive",
+    "deploying",
+    "failed",
+    "crashed",
+    "sleeping",
+    "removed"
+  ]),
+  
+  // Git ref that was deployed
+  githubRepo: varchar("github_repo", { length: 255 }),
+  githubBranch: varchar("github_branch", { length: 255 }),
+  // Set when queued to build an exact commit (upgrade campaigns), or from the
+  // client's pinned commit; null for a branch head
+  githubCommitSha: varchar("github_commit_sha", { length: 40 }),
+  // Release tag of an upgrade campaign's commit
+  version: varchar("version", { length: 50 }),
+  
+  // Fleet rollout this deployment belongs to, and its wave (0 is the canary group)
+  rolloutId: varchar("rollout_id", { length: 36 }),
+  rolloutWave: int("rollout_wave"),
+  // Preview this deployment builds
+  previewId: varchar("preview_id", { length: 36 }),
   
   startedAt: timestamp("started_at").defaultNow().notNull(),
   completedAt: timestamp("completed_at"),
@@ -157,6 +360,43 @@ export const deployments = mysqlTable("deployments", {
 export type Deployment = typeof deployments.$inferSelect;
 export type InsertDeployment = typeof deployments.$inferInsert;
 
+/**
+ * Fleet rollouts - redeploy a set of clients in waves, canary group first
+ */
+export const rollouts = mysqlTable("rollouts", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  name: varchar("name", { length: 255 }).notNull(),
+  
+  status: mysqlEnum("status", [
+    "running",
+    "completed",
+    "halted",
+    "cancelled"
+  ]).default("running").notNull(),
+  
+  // Client selection the rollout was created from (JSON { statuses, tags, clientIds? })
+  selector: text("selector"),
+  // Upgrade campaigns deploy this storefront release instead of each client's current ref
+  targetCommitSha: varchar("target_commit_sha", { length: 40 }),
+  targetVersion: varchar("target_version", { length: 100 }),
+  // Client ids per wave (JSON array of arrays); wave 0 is the canary group
+  waves: mediumtext("waves").notNull(),
+  currentWave: int("current_wave").default(0).notNull(),
+  
+  // Max deployments of this rollout running at once
+  concurrency: int("concurrency").default(2).notNull(),
+  // Halt when more than this percentage of a wave fails
+  failureThreshold: int("failure_threshold").default(20).notNull(),
+  
+  errorMessage: text("error_message"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+  createdBy: varchar("created_by", { length: 100 }),
+});
+
+export type Rollout = typeof rollouts.$inferSelect;
+export type InsertRollout = typeof rollouts.$inferInsert;
+
 /**
  * Client analytics - aggregated daily metrics
  */
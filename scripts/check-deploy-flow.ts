@@ -0,0 +1,149 @@
+import assert from "node:assert/strict";
+import { exampleClientConfig, type ClientConfig } from "../config/client-config.schema";
+import { ClientDeployer, type DeploymentHooks } from "./deploy-client";
+import { RailwayApiClient } from "./railway-api";
+import { startFakeRailwayServer, type FakeRailwayServer } from "./fake-railway-server";
+
+/**
+ * Deploy Flow Check
+ * Runs `ClientDeployer` through `RailwayApiClient` against the fake Railway
+ * server: a first deployment, an update that survives a transient API failure,
+ * an update whose Railway deployment fails, a branch preview and a rate limit
+ * too long to wait out.
+ *
+ * Run: npm run check:deploy
+ */
+
+const config: ClientConfig = {
+  ...exampleClientConfig,
+  railway: { status: "inactive" },
+};
+
+// Wake the status poll as soon as the fake deployment can have moved on
+const hooks: DeploymentHooks = {
+  waitForStatusEvent: () => new Promise((resolve) => setTimeout(resolve, 50)),
+};
+
+function countRequests(fake: FakeRailwayServer, operation: string): number {
+  return fake.requests.filter((request) => request.operation === operation).length;
+}
+
+async function main() {
+  const fake = await startFakeRailwayServer({ deployDuration: 100 });
+  const provider = new RailwayApiClient({
+    apiToken: "check-token",
+    apiUrl: fake.url,
+    retry: { maxRetries: 2, baseDelayMs: 10, maxDelayMs: 50 },
+  });
+  const deployer = new ClientDeployer(provider, { smokeTests: null });
+
+  const checks: Array<[string, () => Promise<void>]> = [];
+  let target: { projectId: string; serviceId: string; environmentId?: string; mysqlServiceId?: string } | null = null;
+
+  checks.push([
+    "first deployment succeeds",
+    async () => {
+      const result = await deployer.deployClient(config, hooks);
+      assert.equal(result.success, true, result.error);
+      assert.ok(result.projectId && result.serviceId, "Railway resources were not returned");
+      assert.ok(result.serviceUrl, "No service URL");
+      assert.match(result.commitSha || "", /^[0-9a-f]{40}$/, "Built commit was not reported");
+
+      const variables = await provider.getEnvironmentVariables(result.projectId, result.serviceId, result.environmentId);
+      assert.ok(variables.some((variable) => variable.key === "LENDPRO_USERNAME"));
+      const active = await provider.getActiveDeployment(result.serviceId, result.environmentId);
+      assert.equal(active?.status, "SUCCESS");
+      target = {
+        projectId: result.projectId,
+        serviceId: result.serviceId,
+        environmentId: result.environmentId,
+        mysqlServiceId: result.mysqlServiceId,
+      };
+    },
+  ]);
+
+  checks.push([
+    "update retries a transient API failure",
+    async () => {
+      assert.ok(target, "Needs the first deployment");
+      fake.requests.length = 0;
+      fake.failNext("variableCollectionUpsert", { status: 503 });
+
+      const result = await deployer.updateClient(config, target, hooks);
+      assert.equal(result.success, true, result.error);
+      assert.equal(countRequests(fake, "variableCollectionUpsert"), 2, "Expected one retry");
+    },
+  ]);
+
+  checks.push([
+    "failed Railway deployment fails the update",
+    async () => {
+      assert.ok(target, "Needs the first deployment");
+      fake.failNextDeployments(1, "FAILED");
+
+      const result = await deployer.updateClient(config, target, hooks);
+      assert.equal(result.success, false);
+      assert.match(result.error || "", /FAILED/);
+    },
+  ]);
+
+  checks.push([
+    "preview gets its own database and URL",
+    async () => {
+      assert.ok(target, "Needs the first deployment");
+      fake.requests.length = 0;
+
+      const result = await deployer.deployPreview(config, target, { name: "preview-check" }, hooks);
+      assert.equal(result.success, true, result.error);
+      assert.ok(result.serviceId && result.mysqlServiceId, "Preview services were not returned");
+      assert.notEqual(result.mysqlServiceId, target.mysqlServiceId, "Preview uses the client's database");
+      assert.equal(countRequests(fake, "serviceDomainCreate"), 1, "No domain was created for the preview");
+      assert.ok(result.serviceUrl, "No preview URL");
+
+      const variables = await provider.getEnvironmentVariables(target.projectId, result.serviceId, target.environmentId);
+      const databaseUrl = variables.find((variable) => variable.key === "DATABASE_URL")?.value || "";
+      assert.ok(databaseUrl.includes(result.mysqlServiceId), "Preview DATABASE_URL does not reference its own database");
+
+      assert.equal(await deployer.removePreview(result), true, "Preview services were not removed");
+    },
+  ]);
+
+  checks.push([
+    "rate limit longer than maxDelayMs fails without waiting",
+    async () => {
+      assert.ok(target, "Needs the first deployment");
+      fake.failNext("project", { status: 429, retryAfter: 3600 });
+
+      const startedAt = Date.now();
+      await assert.rejects(provider.getProject(target.projectId), { kind: "rate_limited" });
+      assert.ok(Date.now() - startedAt < 5000, "Waited for Retry-After");
+    },
+  ]);
+
+  let failures = 0;
+  try {
+    for (const [name, check] of checks) {
+      try {
+        await check();
+        console.log(`✓ ${name}`);
+      } catch (error) {
+        failures++;
+        console.error(`✗ ${name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  } finally {
+    await fake.close();
+  }
+
+  if (failures > 0) {
+    console.error(`${failures} of ${checks.length} checks failed`);
+    process.exit(1);
+  }
+  console.log(`All ${checks.length} checks passed`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
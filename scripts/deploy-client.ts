@@ -1,5 +1,19 @@
 import { ClientConfig, validateClientConfig } from "../config/client-config.schema";
-import { RailwayApiClient, createRailwayApiClient, EnvironmentVariable } from "./railway-api";
+import {
+  createDeploymentProvider,
+  isNotFoundError,
+  type DeploymentProvider,
+  type DeploymentStatusResponse,
+  type EnvironmentVariable,
+  type ProviderCallMetrics,
+  type CustomDomainDetails,
+} from "./deployment-provider";
+import {
+  runSmokeTests,
+  smokeTestOptionsFromEnv,
+  type SmokeCheckResult,
+  type SmokeTestOptions,
+} from "./smoke-tests";
 import fs from "fs/promises";
 import path from "path";
 
@@ -13,124 +27,383 @@ export interface DeploymentResult {
   clientId: string;
   projectId?: string;
   projectUrl?: string;
+  serviceId?: string;
+  environmentId?: string;
+  mysqlServiceId?: string;
   serviceUrl?: string;
+  // Commit Railway built, when it reported one or the deployment pinned it
+  commitSha?: string;
+  snapshot?: DeploymentSnapshot;
+  cancelled?: boolean;
+  // Resources from a failed first deployment that could not be removed
+  orphanedResources?: CreatedResources;
+  customDomain?: CustomDomainResult;
   error?: string;
 }
 
+/**
+ * Outcome of attaching the client's custom domain during a first deployment.
+ * A domain that could not be added does not fail the deployment.
+ */
+export interface CustomDomainResult {
+  domain: string;
+  details?: CustomDomainDetails;
+  error?: string;
+}
+
+/**
+ * Railway resources created so far during a first-time deployment
+ */
+export interface CreatedResources {
+  projectId?: string;
+  environmentId?: string;
+  mysqlServiceId?: string;
+  serviceId?: string;
+}
+
+/**
+ * Thrown when a running deployment is cancelled through its abort signal
+ */
+export class DeploymentCancelledError extends Error {
+  constructor(message: string = "Deployment cancelled") {
+    super(message);
+    this.name = "DeploymentCancelledError";
+  }
+}
+
+/**
+ * Exactly what was pushed to Railway for a deployment, so it can be restored later
+ */
+export interface DeploymentSnapshot {
+  environmentVariables: EnvironmentVariable[];
+  gitRef: GitRef;
+}
+
+/**
+ * Source a client's web service is built from
+ */
+export interface GitRef {
+  repo: string;
+  branch: string;
+  // Exact commit to build; the head of the branch when not set
+  commitSha?: string;
+}
+
+/**
+ * Railway resources of an already deployed client
+ */
+export interface RailwayTarget {
+  projectId: string;
+  serviceId: string;
+  environmentId?: string;
+  mysqlServiceId?: string;
+}
+
+/**
+ * One environment variable that a deployment would add, remove or change.
+ * Secret values are masked.
+ */
+export interface EnvironmentVariableChange {
+  key: string;
+  current?: string;
+  next?: string;
+  secret: boolean;
+}
+
+/**
+ * Dry-run of a deployment: how the client's environment variables would change
+ */
+export interface DeploymentPlan {
+  // True when the client has no Railway service yet, so every variable is new
+  firstDeployment: boolean;
+  added: EnvironmentVariableChange[];
+  removed: EnvironmentVariableChange[];
+  changed: EnvironmentVariableChange[];
+  unchanged: number;
+}
+
+// Variables whose values are never shown in a deployment plan
+const SECRET_VARIABLES = ["LENDPRO_PASSWORD", "AUTOSYNC_API_KEY"];
+const MASKED_VALUE = "********";
+
+/**
+ * A single structured progress entry emitted by the deployer
+ */
+export interface DeploymentLogEntry {
+  timestamp: string;
+  level: "info" | "warn" | "error";
+  step: string;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Callbacks fired while a deployment is running.
+ * Aborting `signal` stops the deployment at the next step or status poll.
+ */
+export interface DeploymentHooks {
+  signal?: AbortSignal;
+  onDeploymentTriggered?: (railwayDeploymentId: string) => Promise<void> | void;
+  onLog?: (entry: DeploymentLogEntry) => Promise<void> | void;
+  // Resolves when the provider pushes a status change for the deployment (or
+  // after a fallback interval); replaces the fixed 5 second polling delay
+  waitForStatusEvent?: (railwayDeploymentId: string, signal?: AbortSignal) => Promise<void>;
+  // Results of the post-deploy smoke tests, passed or not
+  onSmokeTests?: (results: SmokeCheckResult[]) => Promise<void> | void;
+  // A preview's web or database service exists on Railway and has to be removed eventually
+  onServiceCreated?: (serviceId: string, role: "web" | "mysql") => Promise<void> | void;
+}
+
+/**
+ * A temporary service deployed next to a client's web service, with its own
+ * throwaway database so it never touches the client's production data
+ */
+export interface PreviewOptions {
+  name: string;
+  // Services created by an earlier, interrupted attempt at the same preview
+  serviceId?: string;
+  mysqlServiceId?: string;
+}
+
+/**
+ * Totals of the provider calls made during one deployment
+ */
+interface ProviderCallStats {
+  calls: number;
+  retries: number;
+  failures: number;
+  durationMs: number;
+}
+
+// The storefront every client is built from unless its source says otherwise
+export const DEFAULT_GITHUB_REPO = "AudienceActivatorAI/lendpro-ecommerce";
+export const DEFAULT_GITHUB_BRANCH = "main";
+
 export class ClientDeployer {
-  private railwayClient: RailwayApiClient;
+  private provider: DeploymentProvider;
+  private callStats: ProviderCallStats | null = null;
   private githubRepo: string;
   private githubBranch: string;
+  private smokeTests: SmokeTestOptions | null;
 
   constructor(
-    railwayClient: RailwayApiClient,
+    provider: DeploymentProvider,
     options?: {
       githubRepo?: string;
       githubBranch?: string;
+      // Null turns the post-deploy smoke tests off; read from the environment when not set
+      smokeTests?: SmokeTestOptions | null;
     }
   ) {
-    this.railwayClient = railwayClient;
-    this.githubRepo = options?.githubRepo || "AudienceActivatorAI/lendpro-ecommerce";
-    this.githubBranch = options?.githubBranch || "main";
+    this.provider = provider;
+    this.githubRepo = options?.githubRepo || DEFAULT_GITHUB_REPO;
+    this.githubBranch = options?.githubBranch || DEFAULT_GITHUB_BRANCH;
+    this.smokeTests = options?.smokeTests !== undefined ? options.smokeTests : smokeTestOptionsFromEnv();
   }
 
   /**
    * Deploy a new client instance
    */
-  async deployClient(config: ClientConfig): Promise<DeploymentResult> {
-    console.log(`[Deployer] Starting deployment for client: ${config.name}`);
-    
+  async deployClient(config: ClientConfig, hooks?: DeploymentHooks): Promise<DeploymentResult> {
+    this.trackProviderCalls(hooks);
+    await this.log(hooks, "started", `Starting deployment for client: ${config.name}`);
+    const created: CreatedResources = {};
+
     try {
       // Step 1: Create Railway project
+      this.throwIfCancelled(hooks);
       console.log("[Deployer] Creating Railway project...");
-      const project = await this.railwayClient.createProject(
+      const project = await this.provider.createProject(
         `lendpro-${config.name.toLowerCase().replace(/\s+/g, "-")}`
       );
-      console.log(`[Deployer] Project created: ${project.projectId}`);
+      created.projectId = project.projectId;
+      created.environmentId = project.environmentId;
+      await this.log(hooks, "project_created", `Project created: ${project.projectId}`, {
+        projectId: project.projectId,
+      });
 
       // Step 2: Create MySQL service
       console.log("[Deployer] Creating MySQL database service...");
-      const mysqlService = await this.railwayClient.createMySQLService(
+      const mysqlService = await this.provider.createMySQLService(
         project.projectId,
         "mysql"
       );
-      console.log(`[Deployer] MySQL service created: ${mysqlService.serviceId}`);
+      created.mysqlServiceId = mysqlService.serviceId;
+      await this.log(hooks, "mysql_created", `MySQL service created: ${mysqlService.serviceId}`, {
+        serviceId: mysqlService.serviceId,
+      });
 
       // Wait for MySQL to be ready
-      await this.sleep(5000);
+      await this.sleep(5000, hooks?.signal);
 
       // Step 3: Create web service
+      this.throwIfCancelled(hooks);
       console.log("[Deployer] Creating web application service...");
-      const webService = await this.railwayClient.createService(
+      const gitRef = this.resolveGitRef(config);
+      const webService = await this.provider.createService(
         project.projectId,
         "web",
         {
-          repo: this.githubRepo,
-          branch: this.githubBranch,
+          repo: gitRef.repo,
+          branch: gitRef.branch,
         }
       );
-      console.log(`[Deployer] Web service created: ${webService.serviceId}`);
+      created.serviceId = webService.serviceId;
+      await this.log(hooks, "service_created", `Web service created: ${webService.serviceId}`, {
+        serviceId: webService.serviceId,
+        ...gitRef,
+      });
 
       // Step 4: Set environment variables
       console.log("[Deployer] Configuring environment variables...");
       const envVars = this.buildEnvironmentVariables(config, mysqlService.serviceId);
-      await this.railwayClient.setEnvironmentVariables(
+      await this.provider.setEnvironmentVariables(
         project.projectId,
         webService.serviceId,
-        envVars
+        envVars,
+        project.environmentId
       );
-      console.log("[Deployer] Environment variables configured");
+      await this.log(hooks, "env_vars_set", "Environment variables configured", {
+        keys: envVars.map((v) => v.key),
+      });
+      await this.applyResources(config, webService.serviceId, project.environmentId, hooks);
 
       // Step 5: Trigger deployment
+      this.throwIfCancelled(hooks);
       console.log("[Deployer] Triggering initial deployment...");
-      const deployment = await this.railwayClient.triggerDeployment(
+      const deployment = await this.provider.triggerDeployment(
         project.projectId,
-        webService.serviceId
+        webService.serviceId,
+        project.environmentId,
+        gitRef.commitSha
       );
-      console.log(`[Deployer] Deployment triggered: ${deployment.deploymentId}`);
+      await this.log(hooks, "deployment_triggered", `Deployment triggered: ${deployment.deploymentId}`, {
+        deploymentId: deployment.deploymentId,
+      });
+      await hooks?.onDeploymentTriggered?.(deployment.deploymentId);
 
       // Step 6: Wait for deployment to complete
       console.log("[Deployer] Waiting for deployment to complete...");
-      const deploymentStatus = await this.waitForDeployment(
+      const finished = await this.waitForDeployment(
         deployment.deploymentId,
-        300000 // 5 minutes timeout
+        300000, // 5 minutes timeout
+        hooks
       );
 
       // Step 7: Get service URL
-      const serviceUrl = await this.railwayClient.getServiceDomain(webService.serviceId);
-      console.log(`[Deployer] Service URL: ${serviceUrl}`);
+      const serviceUrl = await this.ensureServiceDomain(
+        project.projectId,
+        webService.serviceId,
+        project.environmentId,
+        hooks
+      );
+      await this.log(hooks, "service_url", `Service URL: ${serviceUrl}`, { serviceUrl });
+      await this.verifyService(config, serviceUrl, hooks);
 
       // Step 8: Add custom domain if specified
+      let customDomain: CustomDomainResult | undefined;
       if (config.domain) {
         console.log(`[Deployer] Adding custom domain: ${config.domain}`);
         try {
-          await this.railwayClient.addCustomDomain(webService.serviceId, config.domain);
-          console.log("[Deployer] Custom domain added successfully");
+          const details = await this.provider.addCustomDomain(
+            project.projectId,
+            webService.serviceId,
+            config.domain,
+            project.environmentId
+          );
+          customDomain = { domain: config.domain, details };
+          await this.log(hooks, "domain_added", `Custom domain added: ${config.domain}`, {
+            domain: config.domain,
+            dnsRecords: details.dnsRecords,
+          });
         } catch (error) {
-          console.warn("[Deployer] Failed to add custom domain:", error);
+          customDomain = { domain: config.domain, error: this.errorMessage(error) };
+          await this.log(hooks, "domain_failed", `Failed to add custom domain: ${this.errorMessage(error)}`, {
+            domain: config.domain,
+          }, "warn");
           // Don't fail the deployment if custom domain setup fails
         }
       }
 
-      console.log(`[Deployer] ✅ Deployment completed successfully for ${config.name}`);
+      await this.log(hooks, "completed", `✅ Deployment completed successfully for ${config.name}`, {
+        apiCalls: this.callStats,
+      });
 
       return {
         success: true,
         clientId: config.id,
         projectId: project.projectId,
         projectUrl: `https://railway.app/project/${project.projectId}`,
+        serviceId: webService.serviceId,
+        environmentId: project.environmentId,
+        mysqlServiceId: mysqlService.serviceId,
         serviceUrl: serviceUrl || undefined,
+        commitSha: finished.commitSha || gitRef.commitSha,
+        snapshot: { environmentVariables: envVars, gitRef },
+        customDomain,
       };
     } catch (error) {
-      console.error("[Deployer] ❌ Deployment failed:", error);
-      return {
-        success: false,
-        clientId: config.id,
-        error: error instanceof Error ? error.message : String(error),
-      };
+      const result = await this.failureResult(config, error, "Deployment", hooks);
+      const orphanedResources = await this.cleanupCreatedResources(created, hooks);
+      return { ...result, orphanedResources };
+    } finally {
+      this.provider.setCallListener?.(null);
     }
   }
 
+  /**
+   * Compare the environment variables a deployment would set with those
+   * currently on the client's Railway service. Nothing is changed on Railway.
+   */
+  async planDeployment(config: ClientConfig, target?: RailwayTarget): Promise<DeploymentPlan> {
+    const next = this.buildEnvironmentVariables(config, target?.mysqlServiceId || "mysql");
+    const current = target
+      ? await this.provider.getEnvironmentVariables(
+          target.projectId,
+          target.serviceId,
+          target.environmentId
+        )
+      : [];
+
+    const currentValues = new Map(current.map((v) => [v.key, v.value]));
+    const nextValues = new Map(next.map((v) => [v.key, v.value]));
+    const mask = (key: string, value: string | undefined) =>
+      value !== undefined && SECRET_VARIABLES.includes(key) ? MASKED_VALUE : value;
+    const change = (key: string): EnvironmentVariableChange => ({
+      key,
+      current: mask(key, currentValues.get(key)),
+      next: mask(key, nextValues.get(key)),
+      secret: SECRET_VARIABLES.includes(key),
+    });
+
+    const plan: DeploymentPlan = {
+      firstDeployment: !target,
+      added: [],
+      removed: [],
+      changed: [],
+      unchanged: 0,
+    };
+
+    for (const [key, value] of nextValues) {
+      if (!currentValues.has(key)) {
+        plan.added.push(change(key));
+      } else if (currentValues.get(key) !== value) {
+        plan.changed.push(change(key));
+      } else {
+        plan.unchanged++;
+      }
+    }
+
+    for (const key of currentValues.keys()) {
+      // Railway injects its own RAILWAY_* variables; they are not ours to manage
+      if (!nextValues.has(key) && !key.startsWith("RAILWAY_")) {
+        plan.removed.push(change(key));
+      }
+    }
+
+    return plan;
+  }
+
   /**
    * Build environment variables for a client
    */
@@ -198,15 +471,33 @@ export class ClientDeployer {
    */
   private async waitForDeployment(
     deploymentId: string,
-    timeout: number = 300000
-  ): Promise<{ status: string; url?: string }> {
+    timeout: number = 300000,
+    hooks?: DeploymentHooks
+  ): Promise<DeploymentStatusResponse> {
     const startTime = Date.now();
     const pollInterval = 5000; // 5 seconds
 
     while (Date.now() - startTime < timeout) {
-      const status = await this.railwayClient.getDeploymentStatus(deploymentId);
+      if (hooks?.signal?.aborted) {
+        // The deployment may have finished in the meantime; the user's cancel still stands
+        try {
+          await this.provider.cancelDeployment(deploymentId);
+          await this.log(hooks, "railway_cancelled", `Railway deployment cancelled: ${deploymentId}`, {
+            deploymentId,
+          }, "warn");
+        } catch (error) {
+          await this.log(hooks, "railway_cancel_failed", `Failed to cancel Railway deployment: ${this.errorMessage(error)}`, {
+            deploymentId,
+          }, "warn");
+        }
+        throw new DeploymentCancelledError();
+      }
+
+      const status = await this.provider.getDeploymentStatus(deploymentId);
       
-      console.log(`[Deployer] Deployment status: ${status.status}`);
+      await this.log(hooks, "status_poll", `Deployment status: ${status.status}`, {
+        status: status.status,
+      });
 
       if (status.status === "SUCCESS" || status.status === "ACTIVE") {
         return status;
@@ -216,67 +507,693 @@ export class ClientDeployer {
         throw new Error(`Deployment failed with status: ${status.status}`);
       }
 
-      await this.sleep(pollInterval);
+      if (hooks?.waitForStatusEvent) {
+        await hooks.waitForStatusEvent(deploymentId, hooks.signal);
+      } else {
+        await this.sleep(pollInterval, hooks?.signal);
+      }
     }
 
     throw new Error(`Deployment timed out after ${timeout}ms`);
   }
 
   /**
-   * Update an existing client deployment
+   * Update an existing client deployment in place.
+   * Reuses the client's project, web service and database instead of creating new ones.
    */
   async updateClient(
     config: ClientConfig,
-    projectId: string,
-    serviceId: string
+    target: RailwayTarget,
+    hooks?: DeploymentHooks
   ): Promise<DeploymentResult> {
-    console.log(`[Deployer] Updating deployment for client: ${config.name}`);
+    const { projectId, serviceId, environmentId } = target;
+    this.trackProviderCalls(hooks);
+    await this.log(hooks, "started", `Updating deployment for client: ${config.name}`, {
+      projectId,
+      serviceId,
+    });
 
     try {
+      // Follow the client's repo and branch in case they changed since the last deployment
+      const gitRef = this.resolveGitRef(config);
+      await this.provider.updateServiceSource(serviceId, {
+        repo: gitRef.repo,
+        branch: gitRef.branch,
+      });
+      await this.log(hooks, "source_set", `Service source set to ${this.describeGitRef(gitRef)}`, {
+        ...gitRef,
+      });
+
       // Update environment variables
       console.log("[Deployer] Updating environment variables...");
-      const envVars = this.buildEnvironmentVariables(config, "mysql"); // Assume mysql service exists
-      await this.railwayClient.setEnvironmentVariables(
+      // Railway resolves references by service name too, which covers clients
+      // deployed before the MySQL service id was stored
+      const envVars = this.buildEnvironmentVariables(config, target.mysqlServiceId || "mysql");
+      // Replace rather than merge so keys dropped from the config (as listed
+      // in the deployment plan) are removed from the service
+      await this.provider.setEnvironmentVariables(
         projectId,
         serviceId,
-        envVars
+        envVars,
+        environmentId,
+        { replace: true }
       );
+      await this.log(hooks, "env_vars_set", "Environment variables updated", {
+        keys: envVars.map((v) => v.key),
+      });
+      await this.applyResources(config, serviceId, environmentId, hooks);
 
       // Trigger redeployment
+      this.throwIfCancelled(hooks);
       console.log("[Deployer] Triggering redeployment...");
-      const deployment = await this.railwayClient.triggerDeployment(projectId, serviceId);
+      const deployment = await this.provider.triggerDeployment(
+        projectId,
+        serviceId,
+        environmentId,
+        gitRef.commitSha
+      );
+      await this.log(hooks, "deployment_triggered", `Deployment triggered: ${deployment.deploymentId}`, {
+        deploymentId: deployment.deploymentId,
+      });
+      await hooks?.onDeploymentTriggered?.(deployment.deploymentId);
 
       // Wait for deployment
-      await this.waitForDeployment(deployment.deploymentId);
+      const finished = await this.waitForDeployment(deployment.deploymentId, 300000, hooks);
+
+      const serviceUrl = await this.provider.getServiceDomain(serviceId, environmentId);
+      await this.log(hooks, "service_url", `Service URL: ${serviceUrl}`, { serviceUrl });
+      await this.verifyService(config, serviceUrl, hooks);
 
-      console.log(`[Deployer] ✅ Update completed successfully for ${config.name}`);
+      await this.log(hooks, "completed", `✅ Update completed successfully for ${config.name}`, {
+        apiCalls: this.callStats,
+      });
 
       return {
         success: true,
         clientId: config.id,
         projectId,
+        projectUrl: `https://railway.app/project/${projectId}`,
+        serviceId,
+        environmentId,
+        mysqlServiceId: target.mysqlServiceId,
+        serviceUrl: serviceUrl || undefined,
+        commitSha: finished.commitSha || gitRef.commitSha,
+        snapshot: { environmentVariables: envVars, gitRef },
       };
     } catch (error) {
-      console.error("[Deployer] ❌ Update failed:", error);
+      return await this.failureResult(config, error, "Update", hooks);
+    } finally {
+      this.provider.setCallListener?.(null);
+    }
+  }
+
+  /**
+   * Roll an existing client back to a previously deployed snapshot.
+   * The service's variables are replaced wholesale so keys added since are dropped.
+   */
+  async rollbackClient(
+    config: ClientConfig,
+    target: RailwayTarget,
+    snapshot: DeploymentSnapshot,
+    hooks?: DeploymentHooks
+  ): Promise<DeploymentResult> {
+    return await this.applySnapshot(config, target, snapshot, "Rollback", hooks);
+  }
+
+  /**
+   * Promote a snapshot tested in staging to production: the exact variables
+   * and git ref of the staging deployment are applied to the production target
+   */
+  async promoteClient(
+    config: ClientConfig,
+    productionTarget: RailwayTarget,
+    stagingSnapshot: DeploymentSnapshot,
+    hooks?: DeploymentHooks
+  ): Promise<DeploymentResult> {
+    return await this.applySnapshot(config, productionTarget, stagingSnapshot, "Promotion", hooks);
+  }
+
+  /**
+   * Deploy a preview of the client's config as a separate service in its
+   * project, built from the config's git ref. The preview gets its own MySQL
+   * service, never the client's database, and its own Railway domain. If the
+   * preview fails both services are removed again; those that could not be
+   * removed are returned as orphaned.
+   */
+  async deployPreview(
+    config: ClientConfig,
+    target: RailwayTarget,
+    preview: PreviewOptions,
+    hooks?: DeploymentHooks
+  ): Promise<DeploymentResult> {
+    const { projectId, environmentId } = target;
+    this.trackProviderCalls(hooks);
+    const gitRef = this.resolveGitRef(config);
+    await this.log(hooks, "started", `Deploying preview ${preview.name} for client: ${config.name}`, {
+      projectId,
+      ...gitRef,
+    });
+
+    let serviceId = preview.serviceId;
+    let mysqlServiceId = preview.mysqlServiceId;
+    try {
+      this.throwIfCancelled(hooks);
+      if (!mysqlServiceId) {
+        const database = await this.provider.createMySQLService(projectId, `${preview.name}-mysql`);
+        mysqlServiceId = database.serviceId;
+        await hooks?.onServiceCreated?.(mysqlServiceId, "mysql");
+        await this.log(hooks, "mysql_created", `Preview database created: ${mysqlServiceId}`, {
+          mysqlServiceId,
+        });
+      }
+
+      if (serviceId) {
+        await this.provider.updateServiceSource(serviceId, { repo: gitRef.repo, branch: gitRef.branch });
+        await this.log(hooks, "source_set", `Service source set to ${this.describeGitRef(gitRef)}`, {
+          ...gitRef,
+        });
+      } else {
+        const service = await this.provider.createService(projectId, preview.name, {
+          repo: gitRef.repo,
+          branch: gitRef.branch,
+        });
+        serviceId = service.serviceId;
+        await hooks?.onServiceCreated?.(serviceId, "web");
+        await this.log(hooks, "service_created", `Preview service created: ${serviceId}`, {
+          serviceId,
+          ...gitRef,
+        });
+      }
+
+      // The preview's own database, never the client's
+      const envVars = this.buildEnvironmentVariables(config, mysqlServiceId);
+      await this.provider.setEnvironmentVariables(projectId, serviceId, envVars, environmentId, {
+        replace: true,
+      });
+      await this.log(hooks, "env_vars_set", "Environment variables configured", {
+        keys: envVars.map((v) => v.key),
+      });
+
+      this.throwIfCancelled(hooks);
+      const deployment = await this.provider.triggerDeployment(
+        projectId,
+        serviceId,
+        environmentId,
+        gitRef.commitSha
+      );
+      await this.log(hooks, "deployment_triggered", `Deployment triggered: ${deployment.deploymentId}`, {
+        deploymentId: deployment.deploymentId,
+      });
+      await hooks?.onDeploymentTriggered?.(deployment.deploymentId);
+
+      const finished = await this.waitForDeployment(deployment.deploymentId, 300000, hooks);
+
+      const serviceUrl = await this.ensureServiceDomain(projectId, serviceId, environmentId, hooks);
+      await this.log(hooks, "service_url", `Service URL: ${serviceUrl}`, { serviceUrl });
+      await this.verifyService(config, serviceUrl, hooks);
+
+      await this.log(hooks, "completed", `✅ Preview deployed successfully for ${config.name}`, {
+        apiCalls: this.callStats,
+      });
+
       return {
-        success: false,
+        success: true,
+        clientId: config.id,
+        projectId,
+        projectUrl: `https://railway.app/project/${projectId}`,
+        serviceId,
+        mysqlServiceId,
+        environmentId,
+        serviceUrl: serviceUrl || undefined,
+        commitSha: finished.commitSha || gitRef.commitSha,
+      };
+    } catch (error) {
+      const result = await this.failureResult(config, error, "Preview", hooks);
+      if (await this.removePreview({ serviceId, mysqlServiceId }, hooks)) {
+        return result;
+      }
+      return { ...result, orphanedResources: { serviceId, mysqlServiceId } };
+    } finally {
+      this.provider.setCallListener?.(null);
+    }
+  }
+
+  /**
+   * Delete a preview's web and database services. Returns false if either
+   * could not be removed; one that is already gone counts as removed.
+   */
+  async removePreview(
+    services: { serviceId?: string | null; mysqlServiceId?: string | null },
+    hooks?: DeploymentHooks
+  ): Promise<boolean> {
+    let removed = true;
+    for (const serviceId of [services.serviceId, services.mysqlServiceId]) {
+      if (!serviceId) continue;
+      try {
+        await this.provider.deleteService(serviceId);
+        await this.log(hooks, "cleanup", `Deleted preview service: ${serviceId}`, { serviceId });
+      } catch (error) {
+        if (isNotFoundError(error)) continue;
+        await this.log(hooks, "cleanup_failed", `Failed to delete preview service ${serviceId}: ${this.errorMessage(error)}`, {
+          serviceId,
+        }, "warn");
+        removed = false;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Create the staging environment of a deployed client as a copy of its
+   * production environment and return its id
+   */
+  async createStagingEnvironment(target: RailwayTarget, hooks?: DeploymentHooks): Promise<string> {
+    const environment = await this.provider.createEnvironment(
+      target.projectId,
+      "staging",
+      target.environmentId
+    );
+    await this.log(hooks, "environment_created", `Staging environment created: ${environment.environmentId}`, {
+      environmentId: environment.environmentId,
+    });
+    return environment.environmentId;
+  }
+
+  private async applySnapshot(
+    config: ClientConfig,
+    target: RailwayTarget,
+    snapshot: DeploymentSnapshot,
+    operation: "Rollback" | "Promotion",
+    hooks?: DeploymentHooks
+  ): Promise<DeploymentResult> {
+    const { projectId, serviceId, environmentId } = target;
+    this.trackProviderCalls(hooks);
+    const verb = operation === "Rollback" ? "Rolling back" : "Promoting";
+    await this.log(hooks, "started", `${verb} client: ${config.name}`, {
+      projectId,
+      serviceId,
+      ...snapshot.gitRef,
+    });
+
+    try {
+      await this.provider.updateServiceSource(serviceId, {
+        repo: snapshot.gitRef.repo,
+        branch: snapshot.gitRef.branch,
+      });
+      await this.log(hooks, "source_restored", `Service source set to ${this.describeGitRef(snapshot.gitRef)}`, {
+        ...snapshot.gitRef,
+      });
+
+      await this.provider.setEnvironmentVariables(
+        projectId,
+        serviceId,
+        snapshot.environmentVariables,
+        environmentId,
+        { replace: true }
+      );
+      await this.log(hooks, "env_vars_set", "Environment variables restored", {
+        keys: snapshot.environmentVariables.map((v) => v.key),
+      });
+      // Service settings belong to the client rather than a release, so the
+      // current ones apply
+      await this.applyResources(config, serviceId, environmentId, hooks);
+
+      this.throwIfCancelled(hooks);
+      const deployment = await this.provider.triggerDeployment(
+        projectId,
+        serviceId,
+        environmentId,
+        snapshot.gitRef.commitSha
+      );
+      await this.log(hooks, "deployment_triggered", `Deployment triggered: ${deployment.deploymentId}`, {
+        deploymentId: deployment.deploymentId,
+      });
+      await hooks?.onDeploymentTriggered?.(deployment.deploymentId);
+
+      const finished = await this.waitForDeployment(deployment.deploymentId, 300000, hooks);
+
+      const serviceUrl = await this.provider.getServiceDomain(serviceId, environmentId);
+      await this.log(hooks, "service_url", `Service URL: ${serviceUrl}`, { serviceUrl });
+      await this.verifyService(config, serviceUrl, hooks);
+
+      await this.log(hooks, "completed", `✅ ${operation} completed successfully for ${config.name}`, {
+        apiCalls: this.callStats,
+      });
+
+      return {
+        success: true,
+        clientId: config.id,
+        projectId,
+        projectUrl: `https://railway.app/project/${projectId}`,
+        serviceId,
+        environmentId,
+        mysqlServiceId: target.mysqlServiceId,
+        serviceUrl: serviceUrl || undefined,
+        commitSha: finished.commitSha || snapshot.gitRef.commitSha,
+        snapshot,
+      };
+    } catch (error) {
+      return await this.failureResult(config, error, operation, hooks);
+    } finally {
+      this.provider.setCallListener?.(null);
+    }
+  }
+
+  /**
+   * Finish a deployment that Railway reports as successful but that nothing
+   * waited for, e.g. because its job stopped while it was building. The
+   * service gets the same smoke tests as any other deployment and the
+   * variables it runs with are read back from Railway for the snapshot.
+   */
+  async verifyDeployment(
+    config: ClientConfig,
+    target: RailwayTarget,
+    railwayDeploymentId: string,
+    gitRef: GitRef,
+    hooks?: DeploymentHooks
+  ): Promise<DeploymentResult> {
+    const { projectId, serviceId, environmentId } = target;
+    this.trackProviderCalls(hooks);
+    await this.log(hooks, "started", `Verifying Railway deployment ${railwayDeploymentId} for client: ${config.name}`, {
+      deploymentId: railwayDeploymentId,
+    });
+
+    try {
+      const status = await this.provider.getDeploymentStatus(railwayDeploymentId);
+      if (status.status !== "SUCCESS" && status.status !== "ACTIVE") {
+        throw new Error(`Deployment failed with status: ${status.status}`);
+      }
+
+      const serviceUrl = await this.provider.getServiceDomain(serviceId, environmentId);
+      await this.log(hooks, "service_url", `Service URL: ${serviceUrl}`, { serviceUrl });
+      await this.verifyService(config, serviceUrl, hooks);
+
+      const environmentVariables = await this.provider.getEnvironmentVariables(projectId, serviceId, environmentId);
+      await this.log(hooks, "completed", `✅ Deployment verified for ${config.name}`, {
+        apiCalls: this.callStats,
+      });
+
+      return {
+        success: true,
         clientId: config.id,
-        error: error instanceof Error ? error.message : String(error),
+        projectId,
+        projectUrl: `https://railway.app/project/${projectId}`,
+        serviceId,
+        environmentId,
+        mysqlServiceId: target.mysqlServiceId,
+        serviceUrl: serviceUrl || undefined,
+        commitSha: status.commitSha || gitRef.commitSha,
+        snapshot: { environmentVariables, gitRef },
       };
+    } catch (error) {
+      return await this.failureResult(config, error, "Verification", hooks);
+    } finally {
+      this.provider.setCallListener?.(null);
     }
   }
 
+  /**
+   * Delete a project left behind by an earlier failed deployment.
+   * Returns false if it could not be removed.
+   */
+  async cleanupOrphanedProject(projectId: string, hooks?: DeploymentHooks): Promise<boolean> {
+    try {
+      await this.provider.deleteProject(projectId);
+      await this.log(hooks, "cleanup", `Deleted orphaned project: ${projectId}`, { projectId });
+      return true;
+    } catch (error) {
+      await this.log(hooks, "cleanup_failed", `Failed to delete orphaned project ${projectId}: ${this.errorMessage(error)}`, {
+        projectId,
+      }, "warn");
+      return false;
+    }
+  }
+
+  /**
+   * Repo, branch and commit to build for a client, falling back to the
+   * deployer's defaults
+   */
+  resolveGitRef(config: ClientConfig): GitRef {
+    return {
+      repo: config.source?.repo || this.githubRepo,
+      branch: config.source?.branch || this.githubBranch,
+      ...(config.source?.commitSha && { commitSha: config.source.commitSha }),
+    };
+  }
+
+  /**
+   * Look up the web and MySQL services of an existing project by name.
+   * Used for clients whose service ids were never stored.
+   */
+  async resolveServices(projectId: string): Promise<{ serviceId?: string; mysqlServiceId?: string }> {
+    const project = await this.provider.getProject(projectId);
+    return {
+      serviceId: project.services.find((service) => service.name === "web")?.id,
+      mysqlServiceId: project.services.find((service) => service.name === "mysql")?.id,
+    };
+  }
+
   /**
    * Delete a client deployment
    */
   async deleteClient(projectId: string): Promise<void> {
     console.log(`[Deployer] Deleting project: ${projectId}`);
-    await this.railwayClient.deleteProject(projectId);
+    await this.provider.deleteProject(projectId);
     console.log("[Deployer] ✅ Project deleted successfully");
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  /**
+   * Apply the client's replicas, limits, region and sleep setting to its
+   * service so the deployment triggered next runs with them
+   */
+  /**
+   * The service's Railway domain, generated if it has none yet (new services
+   * have none). Without an environment id the project's production
+   * environment is used.
+   */
+  private async ensureServiceDomain(
+    projectId: string,
+    serviceId: string,
+    environmentId: string | undefined,
+    hooks?: DeploymentHooks
+  ): Promise<string> {
+    const existing = await this.provider.getServiceDomain(serviceId, environmentId);
+    if (existing) return existing;
+
+    let environment = environmentId;
+    if (!environment) {
+      const project = await this.provider.getProject(projectId);
+      environment = (project.environments.find((env) => env.name === "production") || project.environments[0])?.id;
+      if (!environment) {
+        throw new Error(`Railway project ${projectId} has no environment`);
+      }
+    }
+
+    const domain = await this.provider.createServiceDomain(serviceId, environment);
+    await this.log(hooks, "domain_created", `Service domain created: ${domain}`, { serviceId, domain });
+    return domain;
+  }
+
+  private async applyResources(
+    config: ClientConfig,
+    serviceId: string,
+    environmentId: string | undefined,
+    hooks?: DeploymentHooks
+  ): Promise<void> {
+    if (!config.resources) return;
+    if (!environmentId) {
+      await this.log(hooks, "resources_skipped", "Service settings not applied: the environment is unknown", undefined, "warn");
+      return;
+    }
+
+    const { replicas, memoryGb, vCpus, region, sleepWhenIdle } = config.resources;
+    await this.provider.updateServiceInstance(serviceId, environmentId, {
+      numReplicas: replicas,
+      region: region ?? null,
+      sleepApplication: sleepWhenIdle,
+    });
+    await this.provider.updateServiceLimits(serviceId, environmentId, {
+      memoryGB: memoryGb ?? null,
+      vCPUs: vCpus ?? null,
+    });
+    await this.log(hooks, "resources_set", "Service settings applied", { ...config.resources });
+  }
+
+  /**
+   * Run the smoke tests against a deployed service. Throws if any check fails,
+   * so the deployment only succeeds once the storefront actually works.
+   */
+  private async verifyService(
+    config: ClientConfig,
+    serviceUrl: string | null,
+    hooks?: DeploymentHooks
+  ): Promise<void> {
+    if (!this.smokeTests) return;
+    if (!serviceUrl) {
+      await this.log(hooks, "smoke_tests_skipped", "Smoke tests skipped: the service has no URL", undefined, "warn");
+      return;
+    }
+
+    this.throwIfCancelled(hooks);
+    await this.log(hooks, "smoke_tests", `Running smoke tests: ${this.smokeTests.checks.join(", ")}`, {
+      checks: this.smokeTests.checks,
+    });
+    const results = await runSmokeTests(serviceUrl, config, this.smokeTests, hooks?.signal);
+    for (const result of results) {
+      await this.log(
+        hooks,
+        "smoke_test",
+        `${result.passed ? "✓" : "✗"} ${result.name}: ${result.message}`,
+        { ...result },
+        result.passed ? "info" : "error"
+      );
+    }
+    await hooks?.onSmokeTests?.(results);
+    this.throwIfCancelled(hooks);
+
+    const failed = results.filter((result) => !result.passed).map((result) => result.name);
+    if (failed.length > 0) {
+      throw new Error(`Smoke tests failed: ${failed.join(", ")}`);
+    }
+  }
+
+  /**
+   * Write a progress entry to the console and pass it to the caller's hooks
+   */
+  private async log(
+    hooks: DeploymentHooks | undefined,
+    step: string,
+    message: string,
+    data?: Record<string, unknown>,
+    level: DeploymentLogEntry["level"] = "info"
+  ): Promise<void> {
+    const line = `[Deployer] ${message}`;
+    if (level === "error") {
+      console.error(line);
+    } else if (level === "warn") {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+
+    if (!hooks?.onLog) return;
+
+    try {
+      await hooks.onLog({
+        timestamp: new Date().toISOString(),
+        level,
+        step,
+        message,
+        data,
+      });
+    } catch (error) {
+      // A failing log sink must never fail the deployment itself
+      console.error("[Deployer] Failed to record log entry:", error);
+    }
+  }
+
+  /**
+   * Log a failed or cancelled run and build its result
+   */
+  private async failureResult(
+    config: ClientConfig,
+    error: unknown,
+    label: string,
+    hooks?: DeploymentHooks
+  ): Promise<DeploymentResult> {
+    if (error instanceof DeploymentCancelledError) {
+      await this.log(hooks, "cancelled", `⏹ ${label} cancelled for ${config.name}`, undefined, "warn");
+      return {
+        success: false,
+        cancelled: true,
+        clientId: config.id,
+        error: error.message,
+      };
+    }
+
+    await this.log(hooks, "failed", `❌ ${label} failed: ${this.errorMessage(error)}`, {
+      // Set for classified provider errors, e.g. "auth" or "rate_limited"
+      errorKind: (error as { kind?: string })?.kind,
+      apiCalls: this.callStats,
+    }, "error");
+    return {
+      success: false,
+      clientId: config.id,
+      error: this.errorMessage(error),
+    };
+  }
+
+  /**
+   * Roll back what a failed first-time deployment created. Deleting the
+   * project removes its services too. Returns whatever could not be removed.
+   */
+  private async cleanupCreatedResources(
+    created: CreatedResources,
+    hooks?: DeploymentHooks
+  ): Promise<CreatedResources | undefined> {
+    if (!created.projectId) return undefined;
+
+    const removed = await this.cleanupOrphanedProject(created.projectId, hooks);
+    return removed ? undefined : created;
+  }
+
+  /**
+   * Count every provider call of a deployment and log the ones that needed
+   * retries or failed
+   */
+  private trackProviderCalls(hooks?: DeploymentHooks): void {
+    const stats: ProviderCallStats = { calls: 0, retries: 0, failures: 0, durationMs: 0 };
+    this.callStats = stats;
+
+    this.provider.setCallListener?.((metrics: ProviderCallMetrics) => {
+      stats.calls++;
+      stats.retries += metrics.attempts - 1;
+      stats.durationMs += metrics.durationMs;
+      if (!metrics.ok) {
+        stats.failures++;
+      }
+
+      if (metrics.attempts > 1 || !metrics.ok) {
+        void this.log(
+          hooks,
+          "api_call",
+          `${metrics.operation} ${metrics.ok ? "succeeded" : "failed"} after ${metrics.attempts} attempt(s) in ${metrics.durationMs}ms`,
+          { ...metrics },
+          metrics.ok ? "info" : "warn"
+        );
+      }
+    });
+  }
+
+  private throwIfCancelled(hooks?: DeploymentHooks): void {
+    if (hooks?.signal?.aborted) {
+      throw new DeploymentCancelledError();
+    }
+  }
+
+  private describeGitRef(gitRef: GitRef): string {
+    const ref = `${gitRef.repo}@${gitRef.branch}`;
+    return gitRef.commitSha ? `${ref} (${gitRef.commitSha.slice(0, 7)})` : ref;
+  }
+
+  private errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  /**
+   * Wait for `ms`, returning early if the signal is aborted
+   */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(done, ms);
+      signal?.addEventListener("abort", done, { once: true });
+
+      function done() {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", done);
+        resolve();
+      }
+    });
   }
 }
 
@@ -296,8 +1213,7 @@ export async function deployClientFromFile(configPath: string): Promise<Deployme
   console.log(`[Deployer] Loading client configuration from: ${configPath}`);
   
   const config = await loadClientConfig(configPath);
-  const railwayClient = createRailwayApiClient();
-  const deployer = new ClientDeployer(railwayClient);
+  const deployer = new ClientDeployer(createDeploymentProvider());
   
   return await deployer.deployClient(config);
 }
@@ -0,0 +1,216 @@
+import { createRailwayApiClient, type RailwayCredentials } from "./railway-api";
+import { getLocalDeploymentProvider } from "./local-provider";
+
+/**
+ * Deployment Provider
+ * The hosting operations `ClientDeployer` needs. `RailwayApiClient` talks to
+ * Railway; `LocalDeploymentProvider` simulates everything in memory so the
+ * create → deploy → delete flow runs without a Railway token.
+ */
+
+export interface CreateProjectResponse {
+  projectId: string;
+  projectName: string;
+  environmentId?: string;
+}
+
+export interface CreateEnvironmentResponse {
+  environmentId: string;
+  environmentName: string;
+}
+
+export interface CreateServiceResponse {
+  serviceId: string;
+  serviceName: string;
+}
+
+export interface DeploymentResponse {
+  deploymentId: string;
+  status: string;
+  url?: string;
+}
+
+export interface EnvironmentVariable {
+  key: string;
+  value: string;
+}
+
+/**
+ * Deployment statuses use Railway's vocabulary: INITIALIZING, BUILDING,
+ * DEPLOYING, SUCCESS, FAILED, CRASHED, REMOVED, CANCELLED, ...
+ */
+export interface DeploymentStatusResponse {
+  status: string;
+  url?: string;
+  // Commit the deployment was built from, once Railway has checked it out
+  commitSha?: string;
+  logs?: string;
+}
+
+/**
+ * Statuses of a deployment that is serving its service. Railway marks older
+ * deployments REMOVED once a newer one succeeds, so the newest deployment in
+ * one of these statuses is the one running.
+ */
+export const ACTIVE_DEPLOYMENT_STATUSES = ["SUCCESS", "CRASHED", "SLEEPING"];
+
+/**
+ * Settings of a service in one environment; fields left out are not changed
+ */
+export interface ServiceInstanceSettings {
+  numReplicas?: number;
+  // Null moves the service back to Railway's default region
+  region?: string | null;
+  sleepApplication?: boolean;
+}
+
+/**
+ * Resource limits of a service in one environment; null removes a limit
+ */
+export interface ServiceLimits {
+  memoryGB: number | null;
+  vCPUs: number | null;
+}
+
+export interface ProjectDetails {
+  id: string;
+  name: string;
+  services: Array<{ id: string; name: string }>;
+  environments: Array<{ id: string; name: string }>;
+}
+
+/**
+ * A DNS record the client has to create for a custom domain
+ */
+export interface DnsRecord {
+  type: string; // CNAME, A, TXT, ...
+  name: string; // Fully qualified host name
+  value: string; // Value the record must have
+  currentValue?: string;
+  propagated: boolean;
+}
+
+export type CertificateStatus = "pending" | "issuing" | "issued" | "failed";
+
+export interface CustomDomainDetails {
+  id: string;
+  domain: string;
+  dnsRecords: DnsRecord[];
+  // Every DNS record resolves to its required value
+  verified: boolean;
+  certificateStatus: CertificateStatus;
+}
+
+/**
+ * Outcome of one provider API call, retries included
+ */
+export interface ProviderCallMetrics {
+  operation: string;
+  attempts: number;
+  durationMs: number;
+  ok: boolean;
+  errorKind?: string;
+}
+
+export type ProviderCallListener = (metrics: ProviderCallMetrics) => void;
+
+export interface DeploymentProvider {
+  // Projects
+  createProject(name: string, teamId?: string): Promise<CreateProjectResponse>;
+  getProject(projectId: string): Promise<ProjectDetails>;
+  // Every project the credentials can see (in their team, if they have one)
+  listProjects(): Promise<ProjectDetails[]>;
+  deleteProject(projectId: string): Promise<void>;
+
+  // Environments; a copy of `sourceEnvironmentId` (services and variables) when given
+  createEnvironment(
+    projectId: string,
+    name: string,
+    sourceEnvironmentId?: string
+  ): Promise<CreateEnvironmentResponse>;
+
+  // Services
+  createService(
+    projectId: string,
+    name: string,
+    source?: { repo: string; branch: string }
+  ): Promise<CreateServiceResponse>;
+  createMySQLService(projectId: string, name?: string): Promise<CreateServiceResponse>;
+  updateServiceSource(serviceId: string, source: { repo: string; branch: string }): Promise<void>;
+  deleteService(serviceId: string): Promise<void>;
+  updateServiceInstance(
+    serviceId: string,
+    environmentId: string,
+    settings: ServiceInstanceSettings
+  ): Promise<void>;
+  updateServiceLimits(serviceId: string, environmentId: string, limits: ServiceLimits): Promise<void>;
+
+  // Environment variables
+  setEnvironmentVariables(
+    projectId: string,
+    serviceId: string,
+    variables: EnvironmentVariable[],
+    environmentId?: string,
+    options?: { replace?: boolean }
+  ): Promise<void>;
+  getEnvironmentVariables(
+    projectId: string,
+    serviceId: string,
+    environmentId?: string
+  ): Promise<EnvironmentVariable[]>;
+
+  // Deployments
+  triggerDeployment(
+    projectId: string,
+    serviceId: string,
+    environmentId?: string,
+    commitSha?: string
+  ): Promise<DeploymentResponse>;
+  getDeploymentStatus(deploymentId: string): Promise<DeploymentStatusResponse>;
+  // The deployment currently serving the service, or null if none is running
+  getActiveDeployment(serviceId: string, environmentId?: string): Promise<DeploymentResponse | null>;
+  // Recent deployments of the service, newest first
+  listDeployments(serviceId: string, environmentId?: string): Promise<DeploymentResponse[]>;
+  cancelDeployment(deploymentId: string): Promise<void>;
+
+  // Domains
+  getServiceDomain(serviceId: string, environmentId?: string): Promise<string | null>;
+  // Generate a Railway domain for a service, which has none until one is created
+  createServiceDomain(serviceId: string, environmentId: string): Promise<string>;
+  addCustomDomain(
+    projectId: string,
+    serviceId: string,
+    domain: string,
+    environmentId?: string
+  ): Promise<CustomDomainDetails>;
+  getCustomDomain(projectId: string, domainId: string): Promise<CustomDomainDetails>;
+  listCustomDomains(serviceId: string, environmentId: string): Promise<CustomDomainDetails[]>;
+  removeCustomDomain(domainId: string): Promise<void>;
+
+  // Optional: observe every API call, e.g. to put retries in deployment logs
+  setCallListener?(listener: ProviderCallListener | null): void;
+}
+
+/**
+ * Whether a provider error means the resource does not exist, e.g. a project
+ * deleted outside the portal. Providers tag these errors with `kind: "not_found"`.
+ */
+export function isNotFoundError(error: unknown): boolean {
+  return (error as { kind?: string } | null)?.kind === "not_found";
+}
+
+/**
+ * Create the provider selected by DEPLOYMENT_PROVIDER ("railway" by default, or "local").
+ * Railway credentials select the account to use; the local provider ignores them.
+ */
+export function createDeploymentProvider(credentials?: RailwayCredentials): DeploymentProvider {
+  const provider = process.env.DEPLOYMENT_PROVIDER || "railway";
+  switch (provider) {
+    case "railway":
+      return createRailwayApiClient(credentials);
+    case "local":
+      return getLocalDeploymentProvider();
+    default:
+      throw new Error(`Unknown DEPLOYMENT_PROVIDER "${provider}". Use "railway" or "local".`);
+  }
+}
@@ -0,0 +1,357 @@
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { pathToFileURL } from "url";
+import { LocalDeploymentProvider } from "./local-provider";
+import type { CustomDomainDetails, ProjectDetails } from "./deployment-provider";
+
+/**
+ * Fake Railway Server
+ * In-process stand-in for Railway's GraphQL API covering the operations
+ * `RailwayApiClient` sends. State lives in a `LocalDeploymentProvider`, so
+ * deployments move through BUILDING and DEPLOYING before finishing.
+ * Point the portal at it with RAILWAY_API_URL.
+ *
+ * Run standalone: npx tsx scripts/fake-railway-server.ts
+ */
+
+export interface FakeRailwayServerOptions {
+  port?: number;
+  // Token clients must send; any bearer token is accepted when not set
+  apiToken?: string;
+  deployDuration?: number;
+}
+
+/**
+ * A failure returned instead of running an operation. Without `status` it is
+ * a GraphQL error in a 200 response, otherwise an HTTP error.
+ */
+export interface InjectedFailure {
+  message?: string;
+  status?: number;
+  // Seconds, sent as the Retry-After header
+  retryAfter?: number;
+  // How many consecutive calls fail; defaults to 1
+  times?: number;
+}
+
+export interface FakeRailwayServer {
+  url: string;
+  state: LocalDeploymentProvider;
+  // Every operation received, in order
+  requests: Array<{ operation: string; variables: Record<string, any> }>;
+  failNext(operation: string, failure?: InjectedFailure): void;
+  failNextDeployments(count?: number, status?: "FAILED" | "CRASHED"): void;
+  reset(): void;
+  close(): Promise<void>;
+}
+
+type Resolver = (variables: Record<string, any>, query: string) => Promise<unknown>;
+
+/**
+ * Custom domain in the shape Railway returns it
+ */
+function toRailwayCustomDomain(details: CustomDomainDetails) {
+  const certificateStatus = {
+    pending: "CERTIFICATE_STATUS_TYPE_UNSPECIFIED",
+    issuing: "CERTIFICATE_STATUS_TYPE_ISSUING",
+    issued: "CERTIFICATE_STATUS_TYPE_VALID",
+    failed: "CERTIFICATE_STATUS_TYPE_ISSUE_FAILED",
+  }[details.certificateStatus];
+
+  return {
+    id: details.id,
+    domain: details.domain,
+    status: {
+      dnsRecords: details.dnsRecords.map((record) => ({
+        fqdn: record.name,
+        recordType: `DNS_RECORD_TYPE_${record.type}`,
+        requiredValue: record.value,
+        currentValue: record.currentValue ?? "",
+        status: record.propagated ? "DNS_RECORD_STATUS_PROPAGATED" : "DNS_RECORD_STATUS_REQUIRES_UPDATE",
+      })),
+      certificateStatus,
+    },
+  };
+}
+
+function toRailwayProject(project: ProjectDetails) {
+  return {
+    id: project.id,
+    name: project.name,
+    services: { edges: project.services.map((node) => ({ node })) },
+    environments: { edges: project.environments.map((node) => ({ node })) },
+  };
+}
+
+function createResolvers(state: LocalDeploymentProvider): Record<string, Resolver> {
+  return {
+    projectCreate: async (variables) => {
+      const project = await state.createProject(variables.name);
+      return {
+        id: project.projectId,
+        name: project.projectName,
+        environments: { edges: [{ node: { id: project.environmentId, name: "production" } }] },
+      };
+    },
+
+    project: async (variables) => toRailwayProject(await state.getProject(variables.id)),
+
+    // Every local project, whatever the team
+    projects: async () => ({
+      edges: (await state.listProjects()).map((project) => ({ node: toRailwayProject(project) })),
+    }),
+
+    projectDelete: async (variables) => {
+      await state.deleteProject(variables.id);
+      return true;
+    },
+
+    environmentCreate: async (variables) => {
+      const environment = await state.createEnvironment(
+        variables.projectId,
+        variables.name,
+        variables.sourceEnvironmentId
+      );
+      return { id: environment.environmentId, name: environment.environmentName };
+    },
+
+    // The MySQL service is created from an inline image source
+    serviceCreate: async (variables, query) => {
+      const service = /image:\s*"/.test(query)
+        ? await state.createMySQLService(variables.projectId, variables.name)
+        : await state.createService(variables.projectId, variables.name, variables.source);
+      return { id: service.serviceId, name: service.serviceName };
+    },
+
+    serviceDelete: async (variables) => {
+      await state.deleteService(variables.id);
+      return true;
+    },
+
+    serviceInstanceUpdate: async (variables) => {
+      await state.updateServiceInstance(variables.serviceId, variables.environmentId, variables.input);
+      return true;
+    },
+
+    serviceInstanceLimitsUpdate: async (variables) => {
+      const { serviceId, environmentId, memoryGB, vCPUs } = variables.input;
+      await state.updateServiceLimits(serviceId, environmentId, { memoryGB, vCPUs });
+      return true;
+    },
+
+    serviceConnect: async (variables) => {
+      await state.updateServiceSource(variables.id, { repo: variables.repo, branch: variables.branch });
+      return { id: variables.id };
+    },
+
+    service: async (variables) => {
+      const domain = await state.getServiceDomain(variables.id);
+      return { id: variables.id, domains: { serviceDomains: domain ? [domain] : [] } };
+    },
+
+    serviceDomainCreate: async (variables) => {
+      const domain = await state.createServiceDomain(variables.serviceId, variables.environmentId);
+      return { id: domain, domain };
+    },
+
+    serviceInstance: async (variables) => {
+      const domain = await state.getServiceDomain(variables.serviceId, variables.environmentId);
+      const customDomains = await state.listCustomDomains(variables.serviceId, variables.environmentId);
+      return {
+        id: variables.serviceId,
+        domains: {
+          serviceDomains: domain ? [domain] : [],
+          customDomains: customDomains.map(toRailwayCustomDomain),
+        },
+      };
+    },
+
+    variableCollectionUpsert: async (variables) => {
+      await state.setEnvironmentVariables(
+        variables.projectId,
+        variables.serviceId,
+        (variables.variables || []).map((v: { name: string; value: string }) => ({
+          key: v.name,
+          value: v.value,
+        })),
+        variables.environmentId,
+        { replace: variables.replace }
+      );
+      return true;
+    },
+
+    variables: async (variables) => {
+      const vars = await state.getEnvironmentVariables(
+        variables.projectId,
+        variables.serviceId,
+        variables.environmentId
+      );
+      return Object.fromEntries(vars.map((v) => [v.key, v.value]));
+    },
+
+    serviceInstanceRedeploy: async (variables) => {
+      const deployment = await state.triggerDeployment(
+        variables.projectId,
+        variables.serviceId,
+        variables.environmentId
+      );
+      return { id: deployment.deploymentId, status: deployment.status };
+    },
+
+    serviceInstanceDeployV2: async (variables) => {
+      const deployment = await state.triggerDeployment(
+        variables.projectId,
+        variables.serviceId,
+        variables.environmentId,
+        variables.commitSha
+      );
+      return deployment.deploymentId;
+    },
+
+    deployment: async (variables) => {
+      const status = await state.getDeploymentStatus(variables.id);
+      return { id: variables.id, status: status.status, url: status.url, meta: { commitHash: status.commitSha } };
+    },
+
+    // Newest first, as Railway lists them
+    deployments: async (variables) => ({
+      edges: (await state.listDeployments(variables.serviceId, variables.environmentId)).map((deployment) => ({
+        node: { id: deployment.deploymentId, status: deployment.status },
+      })),
+    }),
+
+    deploymentCancel: async (variables) => {
+      await state.cancelDeployment(variables.id);
+      return true;
+    },
+
+    customDomainCreate: async (variables) => {
+      const details = await state.addCustomDomain(
+        variables.projectId,
+        variables.serviceId,
+        variables.domain,
+        variables.environmentId
+      );
+      return toRailwayCustomDomain(details);
+    },
+
+    customDomain: async (variables) => {
+      return toRailwayCustomDomain(await state.getCustomDomain(variables.projectId, variables.id));
+    },
+
+    customDomainDelete: async (variables) => {
+      await state.removeCustomDomain(variables.id);
+      return true;
+    },
+  };
+}
+
+/**
+ * Name of the root field an operation selects, e.g. "projectCreate"
+ */
+function operationName(query: string): string | null {
+  const match = query.match(/^\s*(?:(?:query|mutation)\b[^{]*)?\{\s*(\w+)/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Start the fake server. Use port 0 (the default) for a random free port.
+ */
+export async function startFakeRailwayServer(
+  options: FakeRailwayServerOptions = {}
+): Promise<FakeRailwayServer> {
+  let state = new LocalDeploymentProvider({ deployDuration: options.deployDuration });
+  let resolvers = createResolvers(state);
+  const failures = new Map<string, InjectedFailure & { times: number }>();
+  const requests: FakeRailwayServer["requests"] = [];
+
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+
+  app.post("/graphql/v2", async (req, res) => {
+    const auth = req.headers.authorization;
+    if (!auth?.startsWith("Bearer ") || (options.apiToken && auth !== `Bearer ${options.apiToken}`)) {
+      res.status(401).json({ errors: [{ message: "Not Authorized" }] });
+      return;
+    }
+
+    const query: string = req.body?.query || "";
+    const variables: Record<string, any> = req.body?.variables || {};
+    const operation = operationName(query);
+    if (!operation || !resolvers[operation]) {
+      res.json({ errors: [{ message: `Unsupported operation: ${operation ?? "unknown"}` }] });
+      return;
+    }
+
+    requests.push({ operation, variables });
+
+    const failure = failures.get(operation);
+    if (failure) {
+      failure.times--;
+      if (failure.times <= 0) {
+        failures.delete(operation);
+      }
+      const message = failure.message || `Injected failure for ${operation}`;
+      if (failure.retryAfter !== undefined) {
+        res.setHeader("Retry-After", String(failure.retryAfter));
+      }
+      if (failure.status) {
+        res.status(failure.status).json({ errors: [{ message }] });
+      } else {
+        res.json({ data: null, errors: [{ message, path: [operation] }] });
+      }
+      return;
+    }
+
+    try {
+      const data = await resolvers[operation](variables, query);
+      res.json({ data: { [operation]: data } });
+    } catch (error) {
+      res.json({
+        data: null,
+        errors: [{ message: error instanceof Error ? error.message : String(error), path: [operation] }],
+      });
+    }
+  });
+
+  const server: Server = await new Promise((resolve) => {
+    const listening = app.listen(options.port ?? 0, "127.0.0.1", () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+
+  const fake: FakeRailwayServer = {
+    url: `http://127.0.0.1:${port}/graphql/v2`,
+    state,
+    requests,
+    failNext(operation, failure = {}) {
+      failures.set(operation, { ...failure, times: failure.times ?? 1 });
+    },
+    failNextDeployments(count, status) {
+      state.failNextDeployments(count, status);
+    },
+    reset() {
+      state = new LocalDeploymentProvider({ deployDuration: options.deployDuration });
+      resolvers = createResolvers(state);
+      fake.state = state;
+      failures.clear();
+      requests.length = 0;
+    },
+    close() {
+      return new Promise((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+      });
+    },
+  };
+
+  return fake;
+}
+
+// Standalone mode
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = parseInt(process.env.FAKE_RAILWAY_PORT || "4010");
+  startFakeRailwayServer({ port }).then((fake) => {
+    console.log(`[Fake Railway] Listening on ${fake.url}`);
+    console.log(`[Fake Railway] Start the portal with RAILWAY_API_URL=${fake.url}`);
+  });
+}
@@ -0,0 +1,87 @@
+import axios, { AxiosInstance } from "axios";
+
+/**
+ * GitHub API Client
+ * Read-only access to the storefront repository: its latest release and
+ * commit comparisons. A token is only needed for private repos and
+ * to raise the rate limit of anonymous requests.
+ * API Reference: https://docs.github.com/en/rest
+ */
+
+const GITHUB_API_URL = "https://api.github.com";
+
+export interface GitHubApiConfig {
+  token?: string;
+  apiUrl?: string;
+}
+
+export interface GitHubRelease {
+  tag: string;
+  name: string;
+  commitSha: string;
+  url: string;
+  publishedAt: string | null;
+}
+
+export interface CommitComparison {
+  // How `head` relates to `base`: "ahead" means head has commits base lacks
+  status: "ahead" | "behind" | "identical" | "diverged";
+  aheadBy: number;
+  behindBy: number;
+}
+
+export class GitHubApiClient {
+  private client: AxiosInstance;
+
+  constructor(config: GitHubApiConfig = {}) {
+    this.client = axios.create({
+      baseURL: config.apiUrl || GITHUB_API_URL,
+      headers: {
+        Accept: "application/vnd.github+json",
+        ...(config.token && { Authorization: `Bearer ${config.token}` }),
+      },
+      timeout: 15000,
+    });
+  }
+
+  /**
+   * Latest published release of a repo (owner/name), or null if it has none
+   */
+  async getLatestRelease(repo: string): Promise<GitHubRelease | null> {
+    try {
+      const { data } = await this.client.get(`/repos/${repo}/releases/latest`);
+      return {
+        tag: data.tag_name,
+        name: data.name || data.tag_name,
+        commitSha: await this.getCommitSha(repo, data.tag_name),
+        url: data.html_url,
+        publishedAt: data.published_at || null,
+      };
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Full SHA of a branch, tag or (abbreviated) commit
+   */
+  async getCommitSha(repo: string, ref: string): Promise<string> {
+    const { data } = await this.client.get(`/repos/${repo}/commits/${encodeURIComponent(ref)}`);
+    return data.sha;
+  }
+
+  /**
+   * Compare two commits of a repo
+   */
+  async compareCommits(repo: string, base: string, head: string): Promise<CommitComparison> {
+    const { data } = await this.client.get(`/repos/${repo}/compare/${base}...${head}`);
+    return {
+      status: data.status,
+      aheadBy: data.ahead_by,
+      behindBy: data.behind_by,
+    };
+  }
+}
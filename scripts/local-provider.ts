@@ -0,0 +1,519 @@
+import { randomBytes, randomUUID } from "crypto";
+import type {
+  DeploymentProvider,
+  CreateProjectResponse,
+  CreateEnvironmentResponse,
+  CreateServiceResponse,
+  DeploymentResponse,
+  DeploymentStatusResponse,
+  EnvironmentVariable,
+  ProjectDetails,
+  CustomDomainDetails,
+  ServiceInstanceSettings,
+  ServiceLimits,
+} from "./deployment-provider";
+import { ACTIVE_DEPLOYMENT_STATUSES } from "./deployment-provider";
+
+/**
+ * Local Deployment Provider
+ * Simulates projects, services, variables and deployments in memory so the
+ * portal can create, deploy and delete clients without a Railway account.
+ * Deployments build for half of `deployDuration`, deploy for the other half
+ * and then succeed, unless a failure was queued with `failNextDeployments`.
+ * Custom domains verify after `deployDuration` and get a certificate after twice that.
+ * Variables and generated domains are kept per environment; calls without an
+ * environment id use the project's "production" environment. As on Railway, a
+ * new service has no domain until `createServiceDomain` generates one.
+ * State is lost when the process exits.
+ */
+
+export interface LocalProviderOptions {
+  deployDuration?: number;
+}
+
+interface LocalProject {
+  id: string;
+  name: string;
+  // The "production" environment every project starts with
+  environmentId: string;
+  environments: Map<string, string>;
+  serviceIds: string[];
+}
+
+interface LocalService {
+  id: string;
+  projectId: string;
+  name: string;
+  source?: { repo: string; branch: string };
+  image?: string;
+  // Keyed by environment id
+  variables: Map<string, Map<string, string>>;
+  domains: Map<string, string>;
+  // Settings and limits per environment id, as last set
+  instances: Map<string, ServiceInstanceSettings & Partial<ServiceLimits>>;
+}
+
+interface LocalCustomDomain {
+  id: string;
+  projectId: string;
+  serviceId: string;
+  environmentId: string;
+  domain: string;
+  createdAt: number;
+}
+
+interface LocalDeployment {
+  id: string;
+  serviceId: string;
+  environmentId: string;
+  commitSha?: string;
+  startedAt: number;
+  cancelled: boolean;
+  // Final status once the deployment finishes
+  outcome: string;
+}
+
+/**
+ * Tagged like `RailwayApiError` so callers can tell missing resources apart
+ */
+class LocalNotFoundError extends Error {
+  readonly kind = "not_found";
+}
+
+export class LocalDeploymentProvider implements DeploymentProvider {
+  private deployDuration: number;
+  private projects = new Map<string, LocalProject>();
+  private services = new Map<string, LocalService>();
+  private deployments = new Map<string, LocalDeployment>();
+  private customDomains = new Map<string, LocalCustomDomain>();
+  private queuedOutcomes: string[] = [];
+
+  constructor(options?: LocalProviderOptions) {
+    this.deployDuration = options?.deployDuration ?? 4000;
+  }
+
+  async createProject(name: string): Promise<CreateProjectResponse> {
+    const environmentId = randomUUID();
+    const project: LocalProject = {
+      id: randomUUID(),
+      name,
+      environmentId,
+      environments: new Map([[environmentId, "production"]]),
+      serviceIds: [],
+    };
+    this.projects.set(project.id, project);
+    console.log(`[Local Provider] Created project ${name} (${project.id})`);
+
+    return {
+      projectId: project.id,
+      projectName: project.name,
+      environmentId: project.environmentId,
+    };
+  }
+
+  async getProject(projectId: string): Promise<ProjectDetails> {
+    const project = this.requireProject(projectId);
+    return {
+      id: project.id,
+      name: project.name,
+      services: project.serviceIds.map((id) => {
+        const service = this.requireService(id);
+        return { id: service.id, name: service.name };
+      }),
+      environments: [...project.environments].map(([id, name]) => ({ id, name })),
+    };
+  }
+
+  async listProjects(): Promise<ProjectDetails[]> {
+    return await Promise.all([...this.projects.keys()].map((id) => this.getProject(id)));
+  }
+
+  async deleteProject(projectId: string): Promise<void> {
+    const project = this.requireProject(projectId);
+    for (const serviceId of project.serviceIds) {
+      this.services.delete(serviceId);
+      for (const [id, deployment] of this.deployments) {
+        if (deployment.serviceId === serviceId) {
+          this.deployments.delete(id);
+        }
+      }
+      for (const [id, customDomain] of this.customDomains) {
+        if (customDomain.serviceId === serviceId) {
+          this.customDomains.delete(id);
+        }
+      }
+    }
+    this.projects.delete(projectId);
+    console.log(`[Local Provider] Deleted project ${project.name} (${projectId})`);
+  }
+
+  async createEnvironment(
+    projectId: string,
+    name: string,
+    sourceEnvironmentId?: string
+  ): Promise<CreateEnvironmentResponse> {
+    const project = this.requireProject(projectId);
+    const source = sourceEnvironmentId ? this.resolveEnvironment(project, sourceEnvironmentId) : undefined;
+    const environmentId = randomUUID();
+    project.environments.set(environmentId, name);
+
+    for (const serviceId of project.serviceIds) {
+      const service = this.requireService(serviceId);
+      if (source) {
+        service.variables.set(environmentId, new Map(service.variables.get(source)));
+      }
+      // Every environment gets its own generated domain for services that have one
+      if (service.domains.size > 0) {
+        service.domains.set(environmentId, `${service.name}-${name}-${service.id.slice(0, 8)}.up.localhost`);
+      }
+    }
+    console.log(`[Local Provider] Created environment ${name} in project ${project.name}`);
+
+    return { environmentId, environmentName: name };
+  }
+
+  async createService(
+    projectId: string,
+    name: string,
+    source?: { repo: string; branch: string }
+  ): Promise<CreateServiceResponse> {
+    const service = this.addService(projectId, name);
+    service.source = source;
+    return { serviceId: service.id, serviceName: service.name };
+  }
+
+  async createMySQLService(projectId: string, name: string = "mysql"): Promise<CreateServiceResponse> {
+    const service = this.addService(projectId, name);
+    service.image = "mysql:8.0";
+    const variables = this.variablesOf(service);
+    variables.set("MYSQL_ROOT_PASSWORD", randomUUID());
+    variables.set("MYSQL_DATABASE", "lendpro");
+    return { serviceId: service.id, serviceName: service.name };
+  }
+
+  async updateServiceSource(serviceId: string, source: { repo: string; branch: string }): Promise<void> {
+    this.requireService(serviceId).source = source;
+  }
+
+  async deleteService(serviceId: string): Promise<void> {
+    const service = this.requireService(serviceId);
+    const project = this.requireProject(service.projectId);
+    project.serviceIds = project.serviceIds.filter((id) => id !== serviceId);
+    this.services.delete(serviceId);
+    for (const [id, deployment] of this.deployments) {
+      if (deployment.serviceId === serviceId) {
+        this.deployments.delete(id);
+      }
+    }
+    for (const [id, customDomain] of this.customDomains) {
+      if (customDomain.serviceId === serviceId) {
+        this.customDomains.delete(id);
+      }
+    }
+    console.log(`[Local Provider] Deleted service ${service.name} (${serviceId})`);
+  }
+
+  async updateServiceInstance(
+    serviceId: string,
+    environmentId: string,
+    settings: ServiceInstanceSettings
+  ): Promise<void> {
+    const service = this.requireService(serviceId);
+    const environment = this.resolveEnvironment(this.requireProject(service.projectId), environmentId);
+    service.instances.set(environment, { ...service.instances.get(environment), ...settings });
+  }
+
+  async updateServiceLimits(serviceId: string, environmentId: string, limits: ServiceLimits): Promise<void> {
+    const service = this.requireService(serviceId);
+    const environment = this.resolveEnvironment(this.requireProject(service.projectId), environmentId);
+    service.instances.set(environment, { ...service.instances.get(environment), ...limits });
+  }
+
+  /**
+   * Settings and limits last set on a service in an environment
+   */
+  getServiceInstance(serviceId: string, environmentId?: string): ServiceInstanceSettings & Partial<ServiceLimits> {
+    const service = this.requireService(serviceId);
+    const environment = this.resolveEnvironment(this.requireProject(service.projectId), environmentId);
+    return { ...service.instances.get(environment) };
+  }
+
+  async setEnvironmentVariables(
+    _projectId: string,
+    serviceId: string,
+    variables: EnvironmentVariable[],
+    environmentId?: string,
+    options?: { replace?: boolean }
+  ): Promise<void> {
+    const current = this.variablesOf(this.requireService(serviceId), environmentId);
+    if (options?.replace) {
+      current.clear();
+    }
+    for (const variable of variables) {
+      current.set(variable.key, variable.value);
+    }
+  }
+
+  async getEnvironmentVariables(
+    _projectId: string,
+    serviceId: string,
+    environmentId?: string
+  ): Promise<EnvironmentVariable[]> {
+    const current = this.variablesOf(this.requireService(serviceId), environmentId);
+    return Array.from(current, ([key, value]) => ({ key, value }));
+  }
+
+  async triggerDeployment(
+    _projectId: string,
+    serviceId: string,
+    environmentId?: string,
+    commitSha?: string
+  ): Promise<DeploymentResponse> {
+    const service = this.requireService(serviceId);
+    const deployment: LocalDeployment = {
+      id: randomUUID(),
+      serviceId,
+      environmentId: this.resolveEnvironment(this.requireProject(service.projectId), environmentId),
+      // There is no repository here: a branch head gets a made-up commit, as
+      // Railway reports the one it checked out
+      commitSha: commitSha || randomBytes(20).toString("hex"),
+      startedAt: Date.now(),
+      cancelled: false,
+      outcome: this.queuedOutcomes.shift() || "SUCCESS",
+    };
+    this.deployments.set(deployment.id, deployment);
+
+    return { deploymentId: deployment.id, status: "INITIALIZING" };
+  }
+
+  async getDeploymentStatus(deploymentId: string): Promise<DeploymentStatusResponse> {
+    const deployment = this.deployments.get(deploymentId);
+    if (!deployment) {
+      throw new LocalNotFoundError(`Local deployment not found: ${deploymentId}`);
+    }
+
+    const status = this.statusOf(deployment);
+    const domain = this.services.get(deployment.serviceId)?.domains.get(deployment.environmentId);
+    return {
+      status,
+      url: status === "SUCCESS" && domain ? `https://${domain}` : undefined,
+      commitSha: deployment.commitSha,
+    };
+  }
+
+  async getActiveDeployment(serviceId: string, environmentId?: string): Promise<DeploymentResponse | null> {
+    const active = (await this.listDeployments(serviceId, environmentId)).find((deployment) =>
+      ACTIVE_DEPLOYMENT_STATUSES.includes(deployment.status)
+    );
+    return active || null;
+  }
+
+  /**
+   * Deployments of a service in one environment, newest first
+   */
+  async listDeployments(serviceId: string, environmentId?: string): Promise<DeploymentResponse[]> {
+    const service = this.requireService(serviceId);
+    const environment = this.resolveEnvironment(this.requireProject(service.projectId), environmentId);
+
+    return [...this.deployments.values()]
+      .filter((deployment) => deployment.serviceId === serviceId && deployment.environmentId === environment)
+      .reverse()
+      .map((deployment) => ({ deploymentId: deployment.id, status: this.statusOf(deployment) }));
+  }
+
+  async cancelDeployment(deploymentId: string): Promise<void> {
+    const deployment = this.deployments.get(deploymentId);
+    if (deployment) {
+      deployment.cancelled = true;
+    }
+  }
+
+  async getServiceDomain(serviceId: string, environmentId?: string): Promise<string | null> {
+    const service = this.requireService(serviceId);
+    const environment = this.resolveEnvironment(this.requireProject(service.projectId), environmentId);
+    return service.domains.get(environment) || null;
+  }
+
+  async createServiceDomain(serviceId: string, environmentId: string): Promise<string> {
+    const service = this.requireService(serviceId);
+    const environment = this.resolveEnvironment(this.requireProject(service.projectId), environmentId);
+    const domain = `${service.name}-${randomUUID().slice(0, 8)}.up.localhost`;
+    service.domains.set(environment, domain);
+    return domain;
+  }
+
+  async addCustomDomain(
+    projectId: string,
+    serviceId: string,
+    domain: string,
+    environmentId?: string
+  ): Promise<CustomDomainDetails> {
+    const project = this.requireProject(projectId);
+    this.requireService(serviceId);
+    for (const existing of this.customDomains.values()) {
+      if (existing.domain === domain) {
+        throw new Error(`Domain ${domain} is already in use`);
+      }
+    }
+
+    const customDomain: LocalCustomDomain = {
+      id: randomUUID(),
+      projectId,
+      serviceId,
+      environmentId: this.resolveEnvironment(project, environmentId),
+      domain,
+      createdAt: Date.now(),
+    };
+    this.customDomains.set(customDomain.id, customDomain);
+    return this.describeCustomDomain(customDomain);
+  }
+
+  async getCustomDomain(_projectId: string, domainId: string): Promise<CustomDomainDetails> {
+    const customDomain = this.customDomains.get(domainId);
+    if (!customDomain) {
+      throw new LocalNotFoundError(`Local custom domain not found: ${domainId}`);
+    }
+    return this.describeCustomDomain(customDomain);
+  }
+
+  async listCustomDomains(serviceId: string, environmentId: string): Promise<CustomDomainDetails[]> {
+    const service = this.requireService(serviceId);
+    const environment = this.resolveEnvironment(this.requireProject(service.projectId), environmentId);
+    return [...this.customDomains.values()]
+      .filter((customDomain) => customDomain.serviceId === serviceId && customDomain.environmentId === environment)
+      .map((customDomain) => this.describeCustomDomain(customDomain));
+  }
+
+  async removeCustomDomain(domainId: string): Promise<void> {
+    this.customDomains.delete(domainId);
+  }
+
+  /**
+   * Make the next `count` triggered deployments end in `status` instead of SUCCESS
+   */
+  failNextDeployments(count: number = 1, status: "FAILED" | "CRASHED" = "FAILED"): void {
+    for (let i = 0; i < count; i++) {
+      this.queuedOutcomes.push(status);
+    }
+  }
+
+  /**
+   * Status of a deployment at this moment. Like on Railway, a finished
+   * deployment is REMOVED once a newer one of the same service succeeds.
+   */
+  private statusOf(deployment: LocalDeployment): string {
+    if (deployment.cancelled) {
+      return "CANCELLED";
+    }
+    const elapsed = Date.now() - deployment.startedAt;
+    if (elapsed < this.deployDuration / 2) {
+      return "BUILDING";
+    }
+    if (elapsed < this.deployDuration) {
+      return "DEPLOYING";
+    }
+
+    const superseded = [...this.deployments.values()].some(
+      (newer) =>
+        newer.startedAt > deployment.startedAt &&
+        newer.serviceId === deployment.serviceId &&
+        newer.environmentId === deployment.environmentId &&
+        !newer.cancelled &&
+        newer.outcome === "SUCCESS" &&
+        Date.now() - newer.startedAt >= this.deployDuration
+    );
+    return superseded && ACTIVE_DEPLOYMENT_STATUSES.includes(deployment.outcome) ? "REMOVED" : deployment.outcome;
+  }
+
+  private describeCustomDomain(customDomain: LocalCustomDomain): CustomDomainDetails {
+    const elapsed = Date.now() - customDomain.createdAt;
+    const verified = elapsed >= this.deployDuration;
+    const target = this.services.get(customDomain.serviceId)?.domains.get(customDomain.environmentId) || "";
+
+    return {
+      id: customDomain.id,
+      domain: customDomain.domain,
+      dnsRecords: [
+        {
+          type: "CNAME",
+          name: customDomain.domain,
+          value: target,
+          currentValue: verified ? target : undefined,
+          propagated: verified,
+        },
+      ],
+      verified,
+      certificateStatus: !verified ? "pending" : elapsed < this.deployDuration * 2 ? "issuing" : "issued",
+    };
+  }
+
+  private addService(projectId: string, name: string): LocalService {
+    const project = this.requireProject(projectId);
+    const service: LocalService = {
+      id: randomUUID(),
+      projectId,
+      name,
+      variables: new Map(),
+      domains: new Map(),
+      instances: new Map(),
+    };
+    this.services.set(service.id, service);
+    project.serviceIds.push(service.id);
+    return service;
+  }
+
+  /**
+   * The given environment of a project, or its production environment
+   */
+  private resolveEnvironment(project: LocalProject, environmentId?: string): string {
+    if (!environmentId) {
+      return project.environmentId;
+    }
+    if (!project.environments.has(environmentId)) {
+      throw new LocalNotFoundError(`Local environment not found: ${environmentId}`);
+    }
+    return environmentId;
+  }
+
+  private variablesOf(service: LocalService, environmentId?: string): Map<string, string> {
+    const environment = this.resolveEnvironment(this.requireProject(service.projectId), environmentId);
+    let variables = service.variables.get(environment);
+    if (!variables) {
+      variables = new Map();
+      service.variables.set(environment, variables);
+    }
+    return variables;
+  }
+
+  private requireProject(projectId: string): LocalProject {
+    const project = this.projects.get(projectId);
+    if (!project) {
+      throw new LocalNotFoundError(`Local project not found: ${projectId}`);
+    }
+    return project;
+  }
+
+  private requireService(serviceId: string): LocalService {
+    const service = this.services.get(serviceId);
+    if (!service) {
+      throw new LocalNotFoundError(`Local service not found: ${serviceId}`);
+    }
+    return service;
+  }
+}
+
+let sharedProvider: LocalDeploymentProvider | null = null;
+
+/**
+ * Get the process-wide local provider, so every deployment sees the same state
+ */
+export function getLocalDeploymentProvider(): LocalDeploymentProvider {
+  if (!sharedProvider) {
+    sharedProvider = new LocalDeploymentProvider({
+      deployDuration: process.env.LOCAL_PROVIDER_DEPLOY_DURATION
+        ? parseInt(process.env.LOCAL_PROVIDER_DEPLOY_DURATION)
+        : undefined,
+    });
+  }
+  return sharedProvider;
+}
@@ -1,4 +1,27 @@
 import axios, { AxiosInstance } from "axios";
+import type {
+  DeploymentProvider,
+  CreateProjectResponse,
+  CreateEnvironmentResponse,
+  CreateServiceResponse,
+  DeploymentResponse,
+  DeploymentStatusResponse,
+  EnvironmentVariable,
+  ProjectDetails,
+  ProviderCallListener,
+  CustomDomainDetails,
+  CertificateStatus,
+  ServiceInstanceSettings,
+  ServiceLimits,
+} from "./deployment-provider";
+import { ACTIVE_DEPLOYMENT_STATUSES } from "./deployment-provider";
+
+export type {
+  CreateProjectResponse,
+  CreateServiceResponse,
+  DeploymentResponse,
+  EnvironmentVariable,
+} from "./deployment-provider";
 
 /**
  * Railway API Client
@@ -8,39 +31,136 @@ import axios, { AxiosInstance } from "axios";
 
 const RAILWAY_API_URL = "https://backboard.railway.app/graphql/v2";
 
+// Selection shared by the custom domain queries and mutations
+const CUSTOM_DOMAIN_FIELDS = `
+  id
+  domain
+  status {
+    dnsRecords {
+      fqdn
+      recordType
+      requiredValue
+      currentValue
+      status
+    }
+    certificateStatus
+  }
+`;
+
+// Selection shared by the project queries
+const PROJECT_FIELDS = `
+  id
+  name
+  services {
+    edges {
+      node {
+        id
+        name
+      }
+    }
+  }
+  environments {
+    edges {
+      node {
+        id
+        name
+      }
+    }
+  }
+`;
+
+interface RailwayProject {
+  id: string;
+  name: string;
+  services: { edges: Array<{ node: { id: string; name: string } }> };
+  environments: { edges: Array<{ node: { id: string; name: string } }> };
+}
+
+interface RailwayCustomDomain {
+  id: string;
+  domain: string;
+  status: {
+    dnsRecords: Array<{
+      fqdn: string;
+      recordType: string;
+      requiredValue: string;
+      currentValue?: string | null;
+      status: string;
+    }>;
+    certificateStatus: string;
+  };
+}
+
 export interface RailwayApiConfig {
   apiToken: string;
+  // Team (workspace) projects are created in when createProject is given none
+  teamId?: string;
+  // Defaults to Railway's public API; point at the fake server in tests
+  apiUrl?: string;
+  retry?: RetryOptions;
+  onCall?: ProviderCallListener;
 }
 
-export interface CreateProjectResponse {
-  projectId: string;
-  projectName: string;
+/**
+ * Token and team of one Railway account registered in the portal
+ */
+export interface RailwayCredentials {
+  apiToken: string;
+  teamId?: string;
 }
 
-export interface CreateServiceResponse {
-  serviceId: string;
-  serviceName: string;
+export interface RetryOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
 }
 
-export interface DeploymentResponse {
-  deploymentId: string;
-  status: string;
-  url?: string;
-}
+export type RailwayErrorKind =
+  | "auth"
+  | "rate_limited"
+  | "not_found"
+  | "transient"
+  | "validation"
+  | "unknown";
 
-export interface EnvironmentVariable {
-  key: string;
-  value: string;
+/**
+ * A failed Railway API call, classified so callers can decide whether to retry
+ */
+export class RailwayApiError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: RailwayErrorKind,
+    public readonly operation: string,
+    public readonly status?: number,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "RailwayApiError";
+  }
+
+  get retryable(): boolean {
+    return this.kind === "rate_limited" || this.kind === "transient";
+  }
 }
 
-export class RailwayApiClient {
+export class RailwayApiClient implements DeploymentProvider {
   private client: AxiosInstance;
   private apiToken: string;
+  private teamId?: string;
+  private retry: Required<RetryOptions>;
+  private onCall: ProviderCallListener | null;
 
   constructor(config: RailwayApiConfig) {
     this.apiToken = config.apiToken;
+    this.teamId = config.teamId;
+    this.retry = {
+      maxRetries: config.retry?.maxRetries ?? 4,
+      baseDelayMs: config.retry?.baseDelayMs ?? 500,
+      maxDelayMs: config.retry?.maxDelayMs ?? 30000,
+    };
+    this.onCall = config.onCall || null;
     this.client = axios.create({
-      baseURL: RAILWAY_API_URL,
+      baseURL: config.apiUrl || RAILWAY_API_URL,
       headers: {
         "Content-Type": "application/json",
         Authorization: `Bearer ${this.apiToken}`,
@@ -50,52 +170,161 @@ export class RailwayApiClient {
   }
 
   /**
-   * Execute a GraphQL query
+   * Observe every API call (attempts, latency, outcome)
+   */
+  setCallListener(listener: ProviderCallListener | null): void {
+    this.onCall = listener;
+  }
+
+  /**
+   * Execute a GraphQL query.
+   * Rate-limited calls are always retried since Railway rejected them unprocessed,
+   * unless Railway asks to wait longer than `maxDelayMs`; transient failures only
+   * when the call is idempotent. Queries are idempotent unless stated otherwise.
    */
   private async query<T = any>(
     query: string,
-    variables?: Record<string, any>
+    variables?: Record<string, any>,
+    options?: { idempotent?: boolean }
   ): Promise<T> {
-    try {
-      const response = await this.client.post("", {
-        query,
-        variables,
-      });
+    const operation = operationName(query);
+    const idempotent = options?.idempotent ?? /^\s*query\b/.test(query);
+    const startedAt = Date.now();
+    let attempts = 0;
+
+    while (true) {
+      attempts++;
+      try {
+        const data = await this.send<T>(operation, query, variables);
+        this.onCall?.({ operation, attempts, durationMs: Date.now() - startedAt, ok: true });
+        return data;
+      } catch (error) {
+        const apiError = error as RailwayApiError;
+        // Waiting that long would hold the worker slot and the client lock
+        const waitTooLong = (apiError.retryAfterMs ?? 0) > this.retry.maxDelayMs;
+        const canRetry =
+          attempts <= this.retry.maxRetries &&
+          !waitTooLong &&
+          (apiError.kind === "rate_limited" || (apiError.kind === "transient" && idempotent));
+
+        if (!canRetry) {
+          console.error(`[Railway API] ${operation} failed after ${attempts} attempt(s): ${apiError.message}`);
+          this.onCall?.({
+            operation,
+            attempts,
+            durationMs: Date.now() - startedAt,
+            ok: false,
+            errorKind: apiError.kind,
+          });
+          throw apiError;
+        }
 
-      if (response.data.errors) {
-        throw new Error(
-          `Railway API Error: ${JSON.stringify(response.data.errors)}`
+        const delay = apiError.retryAfterMs ?? this.backoffDelay(attempts);
+        console.warn(
+          `[Railway API] ${operation} ${apiError.kind} (attempt ${attempts}), retrying in ${delay}ms: ${apiError.message}`
         );
+        await new Promise((resolve) => setTimeout(resolve, delay));
       }
+    }
+  }
 
-      return response.data.data as T;
+  /**
+   * Make a single request, converting every failure into a RailwayApiError
+   */
+  private async send<T>(
+    operation: string,
+    query: string,
+    variables?: Record<string, any>
+  ): Promise<T> {
+    let response;
+    try {
+      response = await this.client.post("", { query, variables });
     } catch (error) {
-      console.error("[Railway API] Query failed:", error);
-      throw error;
+      throw classifyHttpError(operation, error);
     }
+
+    if (response.data.errors) {
+      const message = `Railway API Error: ${JSON.stringify(response.data.errors)}`;
+      throw new RailwayApiError(message, classifyGraphQLErrors(response.data.errors), operation);
+    }
+
+    return response.data.data as T;
+  }
+
+  /**
+   * Exponential backoff with full jitter
+   */
+  private backoffDelay(attempt: number): number {
+    const ceiling = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(Math.random() * ceiling);
   }
 
   /**
-   * Create a new Railway project
+   * Create a new Railway project, in the configured team unless one is given
    */
-  async createProject(name: string, teamId?: string): Promise<CreateProjectResponse> {
+  async createProject(name: string, teamId: string | undefined = this.teamId): Promise<CreateProjectResponse> {
     const mutation = `
       mutation CreateProject($name: String!, $teamId: String) {
         projectCreate(input: { name: $name, teamId: $teamId }) {
           id
           name
+          environments {
+            edges {
+              node {
+                id
+                name
+              }
+            }
+          }
         }
       }
     `;
 
-    const result = await this.query<{ projectCreate: { id: string; name: string } }>(
-      mutation,
-      { name, teamId }
-    );
+    const result = await this.query<{
+      projectCreate: {
+        id: string;
+        name: string;
+        environments?: { edges: Array<{ node: { id: string; name: string } }> };
+      };
+    }>(mutation, { name, teamId });
+
+    // New projects come with a single "production" environment
+    const environments = result.projectCreate.environments?.edges.map((edge) => edge.node) || [];
+    const environment = environments.find((env) => env.name === "production") || environments[0];
 
     return {
       projectId: result.projectCreate.id,
       projectName: result.projectCreate.name,
+      environmentId: environment?.id,
+    };
+  }
+
+  /**
+   * Create an environment in a project. With `sourceEnvironmentId` Railway
+   * copies that environment's services and variables into the new one.
+   */
+  async createEnvironment(
+    projectId: string,
+    name: string,
+    sourceEnvironmentId?: string
+  ): Promise<CreateEnvironmentResponse> {
+    const mutation = `
+      mutation CreateEnvironment($projectId: String!, $name: String!, $sourceEnvironmentId: String) {
+        environmentCreate(input: { projectId: $projectId, name: $name, sourceEnvironmentId: $sourceEnvironmentId }) {
+          id
+          name
+        }
+      }
+    `;
+
+    const result = await this.query<{ environmentCreate: { id: string; name: string } }>(
+      mutation,
+      { projectId, name, sourceEnvironmentId }
+    );
+
+    return {
+      environmentId: result.environmentCreate.id,
+      environmentName: result.environmentCreate.name,
     };
   }
 
@@ -169,37 +398,171 @@ export class RailwayApiClient {
   async setEnvironmentVariables(
     projectId: string,
     serviceId: string,
-    variables: EnvironmentVariable[]
+    variables: EnvironmentVariable[],
+    environmentId?: string,
+    options?: { replace?: boolean }
   ): Promise<void> {
     const mutation = `
-      mutation SetVariables($projectId: String!, $serviceId: String!, $variables: [VariableInput!]!) {
+      mutation SetVariables($projectId: String!, $serviceId: String!, $environmentId: String, $variables: [VariableInput!]!, $replace: Boolean) {
         variableCollectionUpsert(input: { 
           projectId: $projectId, 
           serviceId: $serviceId,
-          variables: $variables
+          environmentId: $environmentId,
+          variables: $variables,
+          replace: $replace
         }) {
           id
         }
       }
     `;
 
-    await this.query(mutation, {
+    await this.query(
+      mutation,
+      {
+        projectId,
+        serviceId,
+        environmentId,
+        variables: variables.map((v) => ({ name: v.key, value: v.value })),
+        replace: options?.replace ?? false,
+      },
+      { idempotent: true }
+    );
+  }
+
+  /**
+   * Get the environment variables set on a service. Reference variables
+   * such as `${{mysql.DATABASE_URL}}` are returned unrendered.
+   */
+  async getEnvironmentVariables(
+    projectId: string,
+    serviceId: string,
+    environmentId?: string
+  ): Promise<EnvironmentVariable[]> {
+    const query = `
+      query GetVariables($projectId: String!, $serviceId: String!, $environmentId: String) {
+        variables(projectId: $projectId, serviceId: $serviceId, environmentId: $environmentId, unrendered: true)
+      }
+    `;
+
+    const result = await this.query<{ variables: Record<string, string> | null }>(query, {
       projectId,
       serviceId,
-      variables: variables.map((v) => ({ name: v.key, value: v.value })),
+      environmentId,
     });
+
+    return Object.entries(result.variables || {}).map(([key, value]) => ({ key, value }));
+  }
+
+  /**
+   * Point a service at a GitHub repo and branch
+   */
+  async updateServiceSource(
+    serviceId: string,
+    source: { repo: string; branch: string }
+  ): Promise<void> {
+    const mutation = `
+      mutation ConnectService($id: String!, $repo: String!, $branch: String!) {
+        serviceConnect(id: $id, input: { repo: $repo, branch: $branch }) {
+          id
+        }
+      }
+    `;
+
+    await this.query(
+      mutation,
+      { id: serviceId, repo: source.repo, branch: source.branch },
+      { idempotent: true }
+    );
+  }
+
+  /**
+   * Delete a service with its deployments and domains
+   */
+  async deleteService(serviceId: string): Promise<void> {
+    const mutation = `
+      mutation DeleteService($id: String!) {
+        serviceDelete(id: $id)
+      }
+    `;
+
+    await this.query(mutation, { id: serviceId }, { idempotent: true });
   }
 
   /**
-   * Trigger a deployment
+   * Update replicas, region and sleep of a service in an environment.
+   * Takes effect with the service's next deployment.
+   */
+  async updateServiceInstance(
+    serviceId: string,
+    environmentId: string,
+    settings: ServiceInstanceSettings
+  ): Promise<void> {
+    const mutation = `
+      mutation UpdateServiceInstance(
+        $serviceId: String!
+        $environmentId: String!
+        $input: ServiceInstanceUpdateInput!
+      ) {
+        serviceInstanceUpdate(serviceId: $serviceId, environmentId: $environmentId, input: $input)
+      }
+    `;
+
+    await this.query(mutation, { serviceId, environmentId, input: settings }, { idempotent: true });
+  }
+
+  /**
+   * Set the memory and CPU limits of a service in an environment
+   */
+  async updateServiceLimits(serviceId: string, environmentId: string, limits: ServiceLimits): Promise<void> {
+    const mutation = `
+      mutation UpdateServiceLimits($input: ServiceInstanceLimitsUpdateInput!) {
+        serviceInstanceLimitsUpdate(input: $input)
+      }
+    `;
+
+    await this.query(
+      mutation,
+      { input: { serviceId, environmentId, memoryGB: limits.memoryGB, vCPUs: limits.vCPUs } },
+      { idempotent: true }
+    );
+  }
+
+  /**
+   * Trigger a deployment. With a commit SHA that exact commit is built
+   * instead of the head of the service's branch.
    */
   async triggerDeployment(
     projectId: string,
-    serviceId: string
+    serviceId: string,
+    environmentId?: string,
+    commitSha?: string
   ): Promise<DeploymentResponse> {
+    if (commitSha) {
+      if (!environmentId) {
+        throw new Error("Deploying a pinned commit requires the Railway environment id");
+      }
+
+      const deployMutation = `
+        mutation DeployCommit($serviceId: String!, $environmentId: String!, $commitSha: String!) {
+          serviceInstanceDeployV2(serviceId: $serviceId, environmentId: $environmentId, commitSha: $commitSha)
+        }
+      `;
+
+      const deployed = await this.query<{ serviceInstanceDeployV2: string }>(deployMutation, {
+        serviceId,
+        environmentId,
+        commitSha,
+      });
+
+      return {
+        deploymentId: deployed.serviceInstanceDeployV2,
+        status: "INITIALIZING",
+      };
+    }
+
     const mutation = `
-      mutation TriggerDeploy($serviceId: String!) {
-        serviceInstanceRedeploy(serviceId: $serviceId) {
+      mutation TriggerDeploy($serviceId: String!, $environmentId: String) {
+        serviceInstanceRedeploy(serviceId: $serviceId, environmentId: $environmentId) {
           id
           status
         }
@@ -208,7 +571,7 @@ export class RailwayApiClient {
 
     const result = await this.query<{
       serviceInstanceRedeploy: { id: string; status: string };
-    }>(mutation, { serviceId });
+    }>(mutation, { serviceId, environmentId });
 
     return {
       deploymentId: result.serviceInstanceRedeploy.id,
@@ -219,69 +582,115 @@ export class RailwayApiClient {
   /**
    * Get deployment status
    */
-  async getDeploymentStatus(deploymentId: string): Promise<{
-    status: string;
-    url?: string;
-    logs?: string;
-  }> {
+  async getDeploymentStatus(deploymentId: string): Promise<DeploymentStatusResponse> {
     const query = `
       query GetDeployment($id: String!) {
         deployment(id: $id) {
           id
           status
           url
+          meta
         }
       }
     `;
 
     const result = await this.query<{
-      deployment: { id: string; status: string; url?: string };
+      deployment: { id: string; status: string; url?: string; meta?: { commitHash?: string } | null };
     }>(query, { id: deploymentId });
 
     return {
       status: result.deployment.status,
       url: result.deployment.url,
+      commitSha: result.deployment.meta?.commitHash || undefined,
     };
   }
 
+  /**
+   * The newest deployment of a service that is still serving it
+   */
+  async getActiveDeployment(serviceId: string, environmentId?: string): Promise<DeploymentResponse | null> {
+    const deployments = await this.listDeployments(serviceId, environmentId);
+    return deployments.find((deployment) => ACTIVE_DEPLOYMENT_STATUSES.includes(deployment.status)) || null;
+  }
+
+  /**
+   * The 20 most recent deployments of a service, newest first
+   */
+  async listDeployments(serviceId: string, environmentId?: string): Promise<DeploymentResponse[]> {
+    const query = `
+      query GetServiceDeployments($serviceId: String!, $environmentId: String) {
+        deployments(first: 20, input: { serviceId: $serviceId, environmentId: $environmentId }) {
+          edges {
+            node {
+              id
+              status
+              url
+            }
+          }
+        }
+      }
+    `;
+
+    const result = await this.query<{
+      deployments: { edges: Array<{ node: { id: string; status: string; url?: string } }> };
+    }>(query, { serviceId, environmentId });
+
+    return result.deployments.edges.map(({ node }) => ({
+      deploymentId: node.id,
+      status: node.status,
+      url: node.url,
+    }));
+  }
+
+  /**
+   * Cancel a deployment that is still building or deploying
+   */
+  async cancelDeployment(deploymentId: string): Promise<void> {
+    const mutation = `
+      mutation CancelDeployment($id: String!) {
+        deploymentCancel(id: $id)
+      }
+    `;
+
+    await this.query(mutation, { id: deploymentId }, { idempotent: true });
+  }
+
   /**
    * Get project details
    */
-  async getProject(projectId: string): Promise<{
-    id: string;
-    name: string;
-    services: Array<{ id: string; name: string }>;
-  }> {
+  async getProject(projectId: string): Promise<ProjectDetails> {
     const query = `
       query GetProject($id: String!) {
         project(id: $id) {
-          id
-          name
-          services {
-            edges {
-              node {
-                id
-                name
-              }
+          ${PROJECT_FIELDS}
+        }
+      }
+    `;
+
+    const result = await this.query<{ project: RailwayProject }>(query, { id: projectId });
+    return toProjectDetails(result.project);
+  }
+
+  /**
+   * List the projects of the configured team, or the token owner's personal projects
+   */
+  async listProjects(): Promise<ProjectDetails[]> {
+    const query = `
+      query ListProjects($teamId: String) {
+        projects(teamId: $teamId) {
+          edges {
+            node {
+              ${PROJECT_FIELDS}
             }
           }
         }
       }
     `;
 
-    const result = await this.query<{
-      project: {
-        id: string;
-        name: string;
-        services: { edges: Array<{ node: { id: string; name: string } }> };
-      };
-    }>(query, { id: projectId });
-
-    return {
-      id: result.project.id,
-      name: result.project.name,
-      services: result.project.services.edges.map((edge) => edge.node),
-    };
+    const result = await this.query<{ projects: { edges: Array<{ node: RailwayProject }> } }>(query, {
+      teamId: this.teamId,
+    });
+    return result.projects.edges.map((edge) => toProjectDetails(edge.node));
   }
 
   /**
@@ -294,13 +703,32 @@ export class RailwayApiClient {
       }
     `;
 
-    await this.query(mutation, { id: projectId });
+    await this.query(mutation, { id: projectId }, { idempotent: true });
   }
 
   /**
-   * Get service domain
+   * Get service domain, in a given environment when `environmentId` is set
    */
-  async getServiceDomain(serviceId: string): Promise<string | null> {
+  async getServiceDomain(serviceId: string, environmentId?: string): Promise<string | null> {
+    if (environmentId) {
+      const instanceQuery = `
+        query GetServiceInstance($serviceId: String!, $environmentId: String!) {
+          serviceInstance(serviceId: $serviceId, environmentId: $environmentId) {
+            id
+            domains {
+              serviceDomains
+            }
+          }
+        }
+      `;
+
+      const instance = await this.query<{
+        serviceInstance: { id: string; domains: { serviceDomains: string[] } };
+      }>(instanceQuery, { serviceId, environmentId });
+
+      return instance.serviceInstance.domains.serviceDomains[0] || null;
+    }
+
     const query = `
       query GetService($id: String!) {
         service(id: $id) {
@@ -320,18 +748,107 @@ export class RailwayApiClient {
   }
 
   /**
-   * Add custom domain to service
+   * Generate a Railway domain for a service in an environment
    */
-  async addCustomDomain(serviceId: string, domain: string): Promise<void> {
+  async createServiceDomain(serviceId: string, environmentId: string): Promise<string> {
     const mutation = `
-      mutation AddDomain($serviceId: String!, $domain: String!) {
-        customDomainCreate(input: { serviceId: $serviceId, domain: $domain }) {
+      mutation CreateServiceDomain($serviceId: String!, $environmentId: String!) {
+        serviceDomainCreate(input: { serviceId: $serviceId, environmentId: $environmentId }) {
           id
+          domain
         }
       }
     `;
 
-    await this.query(mutation, { serviceId, domain });
+    const result = await this.query<{
+      serviceDomainCreate: { id: string; domain: string };
+    }>(mutation, { serviceId, environmentId });
+
+    return result.serviceDomainCreate.domain;
+  }
+
+  /**
+   * Custom domains of a service in an environment
+   */
+  async listCustomDomains(serviceId: string, environmentId: string): Promise<CustomDomainDetails[]> {
+    const query = `
+      query ListCustomDomains($serviceId: String!, $environmentId: String!) {
+        serviceInstance(serviceId: $serviceId, environmentId: $environmentId) {
+          id
+          domains {
+            customDomains {
+              ${CUSTOM_DOMAIN_FIELDS}
+            }
+          }
+        }
+      }
+    `;
+
+    const result = await this.query<{
+      serviceInstance: { id: string; domains: { customDomains: RailwayCustomDomain[] } };
+    }>(query, { serviceId, environmentId });
+
+    return result.serviceInstance.domains.customDomains.map(toCustomDomainDetails);
+  }
+
+  /**
+   * Add custom domain to service
+   */
+  async addCustomDomain(
+    projectId: string,
+    serviceId: string,
+    domain: string,
+    environmentId?: string
+  ): Promise<CustomDomainDetails> {
+    const mutation = `
+      mutation AddDomain($projectId: String!, $serviceId: String!, $environmentId: String, $domain: String!) {
+        customDomainCreate(input: { projectId: $projectId, serviceId: $serviceId, environmentId: $environmentId, domain: $domain }) {
+          ${CUSTOM_DOMAIN_FIELDS}
+        }
+      }
+    `;
+
+    const result = await this.query<{ customDomainCreate: RailwayCustomDomain }>(mutation, {
+      projectId,
+      serviceId,
+      environmentId,
+      domain,
+    });
+
+    return toCustomDomainDetails(result.customDomainCreate);
+  }
+
+  /**
+   * Get a custom domain's DNS records and certificate status
+   */
+  async getCustomDomain(projectId: string, domainId: string): Promise<CustomDomainDetails> {
+    const query = `
+      query GetCustomDomain($id: String!, $projectId: String!) {
+        customDomain(id: $id, projectId: $projectId) {
+          ${CUSTOM_DOMAIN_FIELDS}
+        }
+      }
+    `;
+
+    const result = await this.query<{ customDomain: RailwayCustomDomain }>(query, {
+      id: domainId,
+      projectId,
+    });
+
+    return toCustomDomainDetails(result.customDomain);
+  }
+
+  /**
+   * Remove a custom domain from its service
+   */
+  async removeCustomDomain(domainId: string): Promise<void> {
+    const mutation = `
+      mutation DeleteCustomDomain($id: String!) {
+        customDomainDelete(id: $id)
+      }
+    `;
+
+    await this.query(mutation, { id: domainId }, { idempotent: true });
   }
 
   /**
@@ -350,15 +867,117 @@ export class RailwayApiClient {
   }
 }
 
+function toProjectDetails(project: RailwayProject): ProjectDetails {
+  return {
+    id: project.id,
+    name: project.name,
+    services: project.services.edges.map((edge) => edge.node),
+    environments: project.environments.edges.map((edge) => edge.node),
+  };
+}
+
+/**
+ * Convert Railway's custom domain status, whose enums look like
+ * DNS_RECORD_TYPE_CNAME or CERTIFICATE_STATUS_TYPE_VALID
+ */
+function toCustomDomainDetails(domain: RailwayCustomDomain): CustomDomainDetails {
+  const dnsRecords = domain.status.dnsRecords.map((record) => ({
+    type: record.recordType.replace(/^DNS_RECORD_TYPE_/, ""),
+    name: record.fqdn,
+    value: record.requiredValue,
+    currentValue: record.currentValue || undefined,
+    propagated: record.status === "DNS_RECORD_STATUS_PROPAGATED",
+  }));
+
+  let certificateStatus: CertificateStatus = "pending";
+  if (domain.status.certificateStatus.endsWith("VALID")) {
+    certificateStatus = "issued";
+  } else if (domain.status.certificateStatus.endsWith("ISSUING")) {
+    certificateStatus = "issuing";
+  } else if (domain.status.certificateStatus.endsWith("FAILED")) {
+    certificateStatus = "failed";
+  }
+
+  return {
+    id: domain.id,
+    domain: domain.domain,
+    dnsRecords,
+    verified: dnsRecords.length > 0 && dnsRecords.every((record) => record.propagated),
+    certificateStatus,
+  };
+}
+
+/**
+ * Root field an operation selects, e.g. "projectCreate"
+ */
+function operationName(query: string): string {
+  const match = query.match(/^\s*(?:(?:query|mutation)\b[^{]*)?\{\s*(\w+)/);
+  return match ? match[1] : "unknown";
+}
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date
+ */
+function parseRetryAfter(header: unknown): number | undefined {
+  if (typeof header !== "string" || header === "") return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function classifyHttpError(operation: string, error: unknown): RailwayApiError {
+  if (!axios.isAxiosError(error)) {
+    return new RailwayApiError(String(error), "unknown", operation);
+  }
+
+  const status = error.response?.status;
+  const message = `Railway API request failed${status ? ` (HTTP ${status})` : ""}: ${error.message}`;
+
+  // No response at all: timeout, connection reset, DNS hiccup
+  if (!status) return new RailwayApiError(message, "transient", operation);
+  if (status === 401 || status === 403) return new RailwayApiError(message, "auth", operation, status);
+  if (status === 404) return new RailwayApiError(message, "not_found", operation, status);
+  if (status === 429) {
+    const retryAfterMs = parseRetryAfter(error.response?.headers["retry-after"]);
+    return new RailwayApiError(message, "rate_limited", operation, status, retryAfterMs);
+  }
+  if (status === 408 || status >= 500) return new RailwayApiError(message, "transient", operation, status);
+  if (status === 400 || status === 422) return new RailwayApiError(message, "validation", operation, status);
+  return new RailwayApiError(message, "unknown", operation, status);
+}
+
+/**
+ * Railway reports most failures as GraphQL errors in a 200 response
+ */
+function classifyGraphQLErrors(errors: Array<{ message?: string }>): RailwayErrorKind {
+  const messages = errors.map((e) => e.message || "").join(" ").toLowerCase();
+  if (messages.includes("not authorized") || messages.includes("unauthorized")) return "auth";
+  if (messages.includes("rate limit") || messages.includes("too many requests")) return "rate_limited";
+  if (messages.includes("not found")) return "not_found";
+  if (messages.includes("timeout") || messages.includes("internal server error")) return "transient";
+  return "validation";
+}
+
 /**
- * Create Railway API client from environment variable
+ * Create Railway API client for an account's credentials, or from the
+ * RAILWAY_API_TOKEN and RAILWAY_TEAM_ID environment variables without them
  */
-export function createRailwayApiClient(): RailwayApiClient {
-  const apiToken = process.env.RAILWAY_API_TOKEN;
+export function createRailwayApiClient(credentials?: RailwayCredentials): RailwayApiClient {
+  const apiToken = credentials?.apiToken || process.env.RAILWAY_API_TOKEN;
   if (!apiToken) {
     throw new Error(
       "RAILWAY_API_TOKEN environment variable is required. Get your token from https://railway.app/account/tokens"
     );
   }
-  return new RailwayApiClient({ apiToken });
+  return new RailwayApiClient({
+    apiToken,
+    teamId: credentials ? credentials.teamId : process.env.RAILWAY_TEAM_ID || undefined,
+    apiUrl: process.env.RAILWAY_API_URL,
+    retry: {
+      maxRetries: process.env.RAILWAY_API_MAX_RETRIES
+        ? parseInt(process.env.RAILWAY_API_MAX_RETRIES)
+        : undefined,
+    },
+  });
 }
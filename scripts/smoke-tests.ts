@@ -0,0 +1,230 @@
+import axios from "axios";
+import type { ClientConfig } from "../config/client-config.schema";
+
+/**
+ * Smoke Tests
+ * Checks run against a client's storefront once Railway reports its deployment
+ * as successful, so a service that is up but broken (500s, missing config,
+ * wrong branding) fails the deployment instead of counting as a success.
+ * A check that fails is retried a few times while the service warms up.
+ */
+
+export type SmokeCheckName = "health" | "homepage" | "lendpro_config" | "branding";
+
+export const SMOKE_CHECKS: SmokeCheckName[] = ["health", "homepage", "lendpro_config", "branding"];
+
+export interface SmokeTestOptions {
+  checks: SmokeCheckName[];
+  healthPath: string;
+  lendproConfigPath: string;
+  // Per request
+  timeoutMs: number;
+  // Tries per check before it counts as failed
+  attempts: number;
+  retryDelayMs: number;
+}
+
+export interface SmokeCheckResult {
+  name: SmokeCheckName;
+  passed: boolean;
+  message: string;
+  // HTTP status of the last request, if one was answered
+  status?: number;
+  attempts: number;
+  durationMs: number;
+}
+
+type CheckOutcome = Pick<SmokeCheckResult, "passed" | "message" | "status">;
+
+// Module scripts fetched when looking for branding values in the storefront bundle
+const MAX_BRANDING_SCRIPTS = 3;
+
+/**
+ * Smoke test settings from the environment, or null when they are turned off.
+ * SMOKE_TESTS lists the checks to run ("none" disables them); they are off by
+ * default with the local provider, whose service URLs do not resolve.
+ */
+export function smokeTestOptionsFromEnv(): SmokeTestOptions | null {
+  const setting =
+    process.env.SMOKE_TESTS ?? (process.env.DEPLOYMENT_PROVIDER === "local" ? "none" : SMOKE_CHECKS.join(","));
+
+  const checks = setting
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name): name is SmokeCheckName => SMOKE_CHECKS.includes(name as SmokeCheckName));
+  if (checks.length === 0) {
+    return null;
+  }
+
+  return {
+    checks,
+    healthPath: process.env.SMOKE_TEST_HEALTH_PATH || "/api/health",
+    lendproConfigPath: process.env.SMOKE_TEST_LENDPRO_PATH || "/api/lendpro/config",
+    timeoutMs: parseInt(process.env.SMOKE_TEST_TIMEOUT || "10000"),
+    attempts: parseInt(process.env.SMOKE_TEST_ATTEMPTS || "3"),
+    retryDelayMs: parseInt(process.env.SMOKE_TEST_RETRY_DELAY || "5000"),
+  };
+}
+
+/**
+ * Parse the `deployments.smokeTestResults` column
+ */
+export function parseSmokeTestResults(results: string | null): SmokeCheckResult[] {
+  if (!results) return [];
+  try {
+    const parsed = JSON.parse(results);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Run the configured checks against a service URL (with or without scheme)
+ */
+export async function runSmokeTests(
+  serviceUrl: string,
+  config: ClientConfig,
+  options: SmokeTestOptions,
+  signal?: AbortSignal
+): Promise<SmokeCheckResult[]> {
+  const baseUrl = /^https?:\/\//.test(serviceUrl) ? serviceUrl : `https://${serviceUrl}`;
+  const results: SmokeCheckResult[] = [];
+
+  for (const name of options.checks) {
+    const startedAt = Date.now();
+    let outcome: CheckOutcome = { passed: false, message: "Not run" };
+    let attempts = 0;
+
+    while (attempts < Math.max(1, options.attempts)) {
+      if (signal?.aborted) break;
+      if (attempts > 0) {
+        await new Promise((resolve) => setTimeout(resolve, options.retryDelayMs));
+      }
+      attempts++;
+      outcome = await runCheck(name, baseUrl, config, options);
+      if (outcome.passed) break;
+    }
+
+    results.push({ name, ...outcome, attempts, durationMs: Date.now() - startedAt });
+  }
+
+  return results;
+}
+
+async function runCheck(
+  name: SmokeCheckName,
+  baseUrl: string,
+  config: ClientConfig,
+  options: SmokeTestOptions
+): Promise<CheckOutcome> {
+  try {
+    switch (name) {
+      case "health":
+        return await checkHealth(baseUrl, options);
+      case "homepage":
+        return await checkHomepage(baseUrl, options);
+      case "lendpro_config":
+        return await checkLendproConfig(baseUrl, options);
+      case "branding":
+        return await checkBranding(baseUrl, config, options);
+    }
+  } catch (error) {
+    return { passed: false, message: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+async function get(url: string, options: SmokeTestOptions) {
+  return await axios.get<string>(url, {
+    timeout: options.timeoutMs,
+    responseType: "text",
+    // Every status is a result to report, not an exception
+    validateStatus: () => true,
+  });
+}
+
+async function checkHealth(baseUrl: string, options: SmokeTestOptions): Promise<CheckOutcome> {
+  const response = await get(`${baseUrl}${options.healthPath}`, options);
+  return {
+    passed: response.status >= 200 && response.status < 300,
+    message: `GET ${options.healthPath} returned ${response.status}`,
+    status: response.status,
+  };
+}
+
+async function checkHomepage(baseUrl: string, options: SmokeTestOptions): Promise<CheckOutcome> {
+  const response = await get(`${baseUrl}/`, options);
+  if (response.status !== 200) {
+    return { passed: false, message: `GET / returned ${response.status}`, status: response.status };
+  }
+
+  const rendered = /<html[\s>]/i.test(String(response.data));
+  return {
+    passed: rendered,
+    message: rendered ? "Homepage rendered" : "GET / did not return an HTML page",
+    status: response.status,
+  };
+}
+
+/**
+ * The endpoint only has to be reachable: a login wall (401/403) means it is
+ * there, a 404 or server error means it is missing or broken
+ */
+async function checkLendproConfig(baseUrl: string, options: SmokeTestOptions): Promise<CheckOutcome> {
+  const response = await get(`${baseUrl}${options.lendproConfigPath}`, options);
+  const passed =
+    (response.status >= 200 && response.status < 300) || response.status === 401 || response.status === 403;
+  return {
+    passed,
+    message: `GET ${options.lendproConfigPath} returned ${response.status}`,
+    status: response.status,
+  };
+}
+
+/**
+ * Look for the configured company name and colors in the homepage and the
+ * module scripts it loads, where the build inlines the VITE_ branding variables
+ */
+async function checkBranding(
+  baseUrl: string,
+  config: ClientConfig,
+  options: SmokeTestOptions
+): Promise<CheckOutcome> {
+  const expected = [
+    config.branding?.companyName,
+    config.branding?.primaryColor,
+    config.branding?.secondaryColor,
+  ].filter((value): value is string => !!value);
+  if (expected.length === 0) {
+    return { passed: true, message: "No branding configured" };
+  }
+
+  const homepage = await get(`${baseUrl}/`, options);
+  if (homepage.status !== 200) {
+    return { passed: false, message: `GET / returned ${homepage.status}`, status: homepage.status };
+  }
+
+  const html = String(homepage.data);
+  const scripts = Array.from(html.matchAll(/<script[^>]+src="(\/[^"]+)"/gi), (match) => match[1]).slice(
+    0,
+    MAX_BRANDING_SCRIPTS
+  );
+  let content = html;
+  for (const src of scripts) {
+    const script = await get(`${baseUrl}${src}`, options);
+    if (script.status === 200) {
+      content += String(script.data);
+    }
+  }
+
+  const haystack = content.toLowerCase();
+  const missing = expected.filter((value) => !haystack.includes(value.toLowerCase()));
+  return {
+    passed: missing.length === 0,
+    message:
+      missing.length === 0
+        ? "Branding values found on the storefront"
+        : `Branding values not found on the storefront: ${missing.join(", ")}`,
+    status: homepage.status,
+  };
+}
@@ -0,0 +1,147 @@
+import {
+  getClient,
+  getLastSuccessfulDeployment,
+  getClientSubscribers,
+  getNotificationSettings,
+  createNotification,
+  updateNotification,
+  logAdminAction,
+  type Client,
+  type Deployment,
+} from "../database/db";
+import { getEmailService } from "./email";
+import { enqueueDeployment } from "./deployment-worker";
+import { ClientLockedError } from "./client-lock";
+
+/**
+ * Auto Rollback
+ * Clients can opt in to an automatic rollback: when a redeploy of the active
+ * client fails (including its smoke tests), the last successful production
+ * deployment is redeployed as a "rollback". Admins subscribed to the client
+ * are notified of every failed production deployment and of the rollback.
+ */
+
+/**
+ * Whether a failed deployment should be followed by an automatic rollback.
+ * Rollbacks themselves never trigger one, so a bad known-good state cannot loop.
+ */
+function shouldAutoRollback(deployment: Deployment, client: Client): boolean {
+  return (
+    client.autoRollback &&
+    deployment.environment === "production" &&
+    deployment.previousClientStatus === "active" &&
+    deployment.deploymentType !== "rollback" &&
+    deployment.deploymentType !== "initial"
+  );
+}
+
+/**
+ * React to a finished deployment that failed: roll back if the client opted in
+ * and notify its subscribers. Runs after the failed deployment released the
+ * client's lock.
+ */
+export async function handleFailedDeployment(deployment: Deployment): Promise<void> {
+  if (deployment.environment !== "production") return;
+
+  const record = await getClient(deployment.clientId);
+  if (!record) return;
+  const client = record.client;
+
+  let rollback: { deploymentId: string; sourceDeploymentId: string } | null = null;
+  if (shouldAutoRollback(deployment, client)) {
+    rollback = await startAutoRollback(deployment, client);
+  }
+
+  try {
+    await notifySubscribers(client, deployment, rollback);
+  } catch (error) {
+    console.error(`[Auto Rollback] Failed to notify subscribers of client ${client.name}:`, error);
+  }
+}
+
+async function startAutoRollback(
+  deployment: Deployment,
+  client: Client
+): Promise<{ deploymentId: string; sourceDeploymentId: string } | null> {
+  const lastGood = await getLastSuccessfulDeployment(client.id, "production");
+  if (!lastGood) {
+    console.warn(`[Auto Rollback] No successful deployment of ${client.name} to roll back to`);
+    return null;
+  }
+
+  try {
+    const deploymentId = await enqueueDeployment({
+      clientId: client.id,
+      deploymentType: "rollback",
+      environment: "production",
+      deployedBy: deployment.deployedBy || "",
+      previousClientStatus: client.status,
+      sourceDeploymentId: lastGood.id,
+    });
+
+    await logAdminAction({
+      action: "auto_rollback_client",
+      resourceType: "deployment",
+      resourceId: deploymentId,
+      details: JSON.stringify({
+        clientId: client.id,
+        failedDeploymentId: deployment.id,
+        sourceDeploymentId: lastGood.id,
+      }),
+    });
+    console.log(
+      `[Auto Rollback] Deployment ${deployment.id} of ${client.name} failed, rolling back to ${lastGood.id}`
+    );
+
+    return { deploymentId, sourceDeploymentId: lastGood.id };
+  } catch (error) {
+    if (error instanceof ClientLockedError) {
+      // Someone started another deployment in the meantime; leave the client to it
+      console.warn(`[Auto Rollback] Not rolling back ${client.name}: ${error.message}`);
+      return null;
+    }
+    console.error(`[Auto Rollback] Failed to queue rollback of ${client.name}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Record a notification for each subscriber and email those who have not
+ * turned deployment failure emails off
+ */
+async function notifySubscribers(
+  client: Client,
+  deployment: Deployment,
+  rollback: { deploymentId: string; sourceDeploymentId: string } | null
+): Promise<void> {
+  const subscribers = await getClientSubscribers(client.id);
+  if (subscribers.length === 0) return;
+
+  const error = deployment.errorMessage || "Deployment failed";
+  const message = rollback
+    ? `${error}. Rolling back automatically to deployment ${rollback.sourceDeploymentId} (rollback ${rollback.deploymentId}).`
+    : error;
+  const emailService = getEmailService();
+
+  for (const subscriber of subscribers) {
+    const settings = await getNotificationSettings(subscriber.id);
+    if (settings && !settings.notifyDeploymentFailure) continue;
+
+    const notificationId = await createNotification({
+      userId: subscriber.id,
+      type: "deployment_failure",
+      title: rollback ? `Deployment failed, rolled back: ${client.name}` : `Deployment failed: ${client.name}`,
+      message,
+      clientId: client.id,
+      deploymentId: deployment.id,
+    });
+
+    if (settings && !settings.emailEnabled) continue;
+
+    const result = await emailService.sendDeploymentFailure(subscriber.email, client.name, message);
+    await updateNotification(
+      notificationId,
+      result.success ? { emailSent: true, emailSentAt: new Date() } : { emailError: result.error }
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { getClient, updateClient, type Client } from "../database/db";
+import type { ClientConfig } from "../config/client-config.schema";
+import type { ClientDeployer, DeploymentHooks, RailwayTarget } from "../scripts/deploy-client";
+import { decryptPassword } from "./crypto";
+
+/**
+ * Client Deployment Helpers
+ * Turn a client stored in the admin database into what the deployer needs
+ */
+
+export type ClientRecord = NonNullable<Awaited<ReturnType<typeof getClient>>>;
+
+/**
+ * Build the deployer's client config from the database records,
+ * decrypting the LendPro password
+ */
+export function buildClientConfig(record: ClientRecord): ClientConfig {
+  const { client } = record;
+
+  return {
+    id: client.id,
+    name: client.name,
+    domain: client.domain || "",
+    lendpro: {
+      ...record.lendpro,
+      password: decryptPassword(record.lendpro.password),
+    },
+    branding: record.branding
+      ? {
+          logoUrl: record.branding.logoUrl || undefined,
+          primaryColor: record.branding.primaryColor || undefined,
+          secondaryColor: record.branding.secondaryColor || undefined,
+          companyName: record.branding.companyName || undefined,
+          favicon: record.branding.faviconUrl || undefined,
+        }
+      : undefined,
+    visualizer: record.visualizer
+      ? {
+          enabled: record.visualizer.enabled,
+          embedCode: record.visualizer.embedCode || undefined,
+          autoSyncApiKey: record.visualizer.autoSyncApiKey || undefined,
+        }
+      : undefined,
+    features: record.features
+      ? {
+          preApproval: record.features.preApproval,
+          cartFinancing: record.features.cartFinancing,
+          orderTracking: record.features.orderTracking,
+          customerAccounts: record.features.customerAccounts,
+          productComparison: record.features.productComparison,
+          cartOnly: record.features.cartOnly,
+        }
+      : undefined,
+    source: {
+      repo: client.githubRepo || undefined,
+      branch: client.githubBranch || undefined,
+      commitSha: client.githubCommitSha || undefined,
+    },
+    resources: {
+      replicas: client.numReplicas,
+      memoryGb: client.memoryLimitGb ?? undefined,
+      vCpus: client.cpuLimit ?? undefined,
+      region: client.region || undefined,
+      sleepWhenIdle: client.sleepWhenIdle,
+    },
+    railway: {
+      projectId: client.railwayProjectId || undefined,
+      projectUrl: client.railwayProjectUrl || undefined,
+      environmentId: client.railwayEnvironmentId || undefined,
+      serviceId: client.railwayServiceId || undefined,
+      mysqlServiceId: client.railwayMysqlServiceId || undefined,
+      status: client.status,
+    },
+  };
+}
+
+/**
+ * Find the Railway resources of an already deployed client.
+ * Service ids that were never stored are looked up by service name.
+ */
+export async function resolveTarget(
+  client: Client,
+  clientDeployer: ClientDeployer
+): Promise<RailwayTarget> {
+  if (!client.railwayProjectId) {
+    throw new Error(`Client ${client.name} has not been deployed to Railway yet`);
+  }
+
+  let serviceId = client.railwayServiceId;
+  let mysqlServiceId = client.railwayMysqlServiceId;
+  if (!serviceId) {
+    const resolved = await clientDeployer.resolveServices(client.railwayProjectId);
+    serviceId = resolved.serviceId || null;
+    mysqlServiceId = mysqlServiceId || resolved.mysqlServiceId || null;
+  }
+  if (!serviceId) {
+    throw new Error(`No web service found in Railway project ${client.railwayProjectId}`);
+  }
+
+  return {
+    projectId: client.railwayProjectId,
+    serviceId,
+    environmentId: client.railwayEnvironmentId || undefined,
+    mysqlServiceId: mysqlServiceId || undefined,
+  };
+}
+
+/**
+ * Find the Railway resources of a client's staging environment. The
+ * environment is created as a copy of production on the first staging deployment.
+ */
+export async function resolveStagingTarget(
+  client: Client,
+  clientDeployer: ClientDeployer,
+  hooks?: DeploymentHooks
+): Promise<RailwayTarget> {
+  const target = await resolveTarget(client, clientDeployer);
+
+  let environmentId = client.railwayStagingEnvironmentId;
+  if (!environmentId) {
+    environmentId = await clientDeployer.createStagingEnvironment(target, hooks);
+    await updateClient(client.id, { railwayStagingEnvironmentId: environmentId });
+  }
+
+  return { ...target, environmentId };
+}
@@ -0,0 +1,307 @@
+import { nanoid } from "nanoid";
+import {
+  getClient,
+  getAllClients,
+  updateClient,
+  createClientDomain,
+  updateClientDomain,
+  deleteClientDomain,
+  getClientDomain,
+  getClientDomainByName,
+  getClientDomains,
+  getAllClientDomains,
+  type Client,
+  type ClientDomain,
+  type InsertClientDomain,
+} from "../database/db";
+import {
+  isNotFoundError,
+  type CustomDomainDetails,
+  type DnsRecord,
+} from "../scripts/deployment-provider";
+import type { CustomDomainResult } from "../scripts/deploy-client";
+import { createClientProvider } from "./railway-accounts";
+
+/**
+ * Client Domains
+ * Custom domains of each client (e.g. apex and www). A domain is added to the
+ * client's Railway service once the client is deployed; a background check then
+ * follows its DNS verification and certificate issuance until both are done.
+ * `clients.domain` stays the primary domain passed to the deployer.
+ */
+
+const CHECK_INTERVAL = parseInt(process.env.DOMAIN_CHECK_INTERVAL || "300000");
+
+let running = false;
+let checkTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Parse the `client_domains.dnsRecords` column
+ */
+export function parseDnsRecords(dnsRecords: string | null): DnsRecord[] {
+  if (!dnsRecords) return [];
+  try {
+    const parsed = JSON.parse(dnsRecords);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function normalizeDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/\.$/, "");
+}
+
+function isDeployed(client: Client): boolean {
+  return !!client.railwayProjectId && !!client.railwayServiceId;
+}
+
+function toDomainUpdates(details: CustomDomainDetails): Partial<InsertClientDomain> {
+  return {
+    railwayDomainId: details.id,
+    dnsRecords: JSON.stringify(details.dnsRecords),
+    verificationStatus: details.verified ? "verified" : "pending",
+    certificateStatus: details.certificateStatus,
+    errorMessage: null,
+    lastCheckedAt: new Date(),
+  };
+}
+
+/**
+ * Add a domain to a client. It is attached on Railway right away if the client
+ * is deployed, otherwise after its next successful deployment.
+ */
+export async function addClientDomain(clientId: string, domain: string): Promise<ClientDomain> {
+  const record = await getClient(clientId);
+  if (!record) {
+    throw new Error(`Client not found: ${clientId}`);
+  }
+
+  const name = normalizeDomain(domain);
+  const existing = await getClientDomainByName(name);
+  if (existing) {
+    throw new Error(
+      existing.clientId === clientId
+        ? `${name} is already a domain of this client`
+        : `${name} is already used by another client`
+    );
+  }
+
+  const created = await createClientDomain({ id: nanoid(), clientId, domain: name });
+  if (!record.client.domain) {
+    await updateClient(clientId, { domain: name });
+  }
+
+  if (isDeployed(record.client)) {
+    await attachDomain(created, record.client);
+  }
+
+  return (await getClientDomain(created.id))!;
+}
+
+/**
+ * Remove a domain from Railway and from the client. If it was the primary
+ * domain, the next remaining one takes its place.
+ */
+export async function removeClientDomain(domainId: string): Promise<ClientDomain> {
+  const domain = await getClientDomain(domainId);
+  if (!domain) {
+    throw new Error(`Domain not found: ${domainId}`);
+  }
+
+  const record = await getClient(domain.clientId);
+  if (domain.railwayDomainId && record) {
+    try {
+      const provider = await createClientProvider(record.client);
+      await provider.removeCustomDomain(domain.railwayDomainId);
+    } catch (error) {
+      // Already gone from Railway is fine
+      if (!isNotFoundError(error)) throw error;
+    }
+  }
+
+  await deleteClientDomain(domainId);
+
+  if (record && record.client.domain === domain.domain) {
+    const [next] = await getClientDomains(domain.clientId);
+    await updateClient(domain.clientId, { domain: next?.domain ?? null });
+  }
+
+  return domain;
+}
+
+/**
+ * Try a failed domain again: add it to Railway if it never got there,
+ * otherwise refresh its DNS and certificate status
+ */
+export async function retryClientDomain(domainId: string): Promise<ClientDomain> {
+  const domain = await getClientDomain(domainId);
+  if (!domain) {
+    throw new Error(`Domain not found: ${domainId}`);
+  }
+
+  const record = await getClient(domain.clientId);
+  if (!record || !isDeployed(record.client)) {
+    throw new Error("The client has not been deployed yet; its domains are added on the next deployment");
+  }
+
+  if (domain.railwayDomainId) {
+    await checkDomain(domain, record.client);
+  } else {
+    await attachDomain(domain, record.client);
+  }
+
+  return (await getClientDomain(domainId))!;
+}
+
+/**
+ * Store the domain the deployer added during a first deployment
+ */
+export async function recordDeployedDomain(clientId: string, result: CustomDomainResult): Promise<void> {
+  const name = normalizeDomain(result.domain);
+  let domain = await getClientDomainByName(name);
+  if (domain && domain.clientId !== clientId) {
+    console.warn(`[Domains] ${name} belongs to client ${domain.clientId}, not recording it for ${clientId}`);
+    return;
+  }
+  if (!domain) {
+    domain = await createClientDomain({ id: nanoid(), clientId, domain: name });
+  }
+
+  await updateClientDomain(
+    domain.id,
+    result.details
+      ? toDomainUpdates(result.details)
+      : { verificationStatus: "failed", errorMessage: result.error, lastCheckedAt: new Date() }
+  );
+}
+
+/**
+ * Add the client's domains that are not on Railway yet, after a successful deployment
+ */
+export async function attachPendingDomains(clientId: string): Promise<void> {
+  const record = await getClient(clientId);
+  if (!record || !isDeployed(record.client)) return;
+
+  const domains = await getClientDomains(clientId);
+  for (const domain of domains) {
+    if (!domain.railwayDomainId && domain.verificationStatus === "pending") {
+      await attachDomain(domain, record.client);
+    }
+  }
+}
+
+/**
+ * Forget the Railway side of a client's domains, e.g. after its project was
+ * deleted, so they are added again on the next deployment
+ */
+export async function detachClientDomains(clientId: string): Promise<void> {
+  const domains = await getClientDomains(clientId);
+  for (const domain of domains) {
+    await updateClientDomain(domain.id, {
+      railwayDomainId: null,
+      dnsRecords: null,
+      verificationStatus: "pending",
+      certificateStatus: "pending",
+      errorMessage: null,
+    });
+  }
+}
+
+/**
+ * Start following DNS verification and certificate issuance in the background
+ */
+export function startDomainMonitor(): void {
+  if (running) return;
+  running = true;
+  console.log("[Domains] Monitor started");
+  scheduleNextCheck(CHECK_INTERVAL);
+}
+
+export function stopDomainMonitor(): void {
+  running = false;
+  if (checkTimer) {
+    clearTimeout(checkTimer);
+    checkTimer = null;
+  }
+  console.log("[Domains] Monitor stopped");
+}
+
+function scheduleNextCheck(delay: number) {
+  checkTimer = setTimeout(() => {
+    checkTimer = null;
+    checkUnsettledDomains().finally(() => {
+      if (running) {
+        scheduleNextCheck(CHECK_INTERVAL);
+      }
+    });
+  }, delay);
+}
+
+async function checkUnsettledDomains() {
+  try {
+    const domains = (await getAllClientDomains()).filter(
+      (domain) =>
+        domain.railwayDomainId &&
+        (domain.verificationStatus !== "verified" || domain.certificateStatus !== "issued")
+    );
+    if (domains.length === 0) return;
+
+    const clients = new Map((await getAllClients()).map((client) => [client.id, client]));
+    for (const domain of domains) {
+      if (!running) return;
+      const client = clients.get(domain.clientId);
+      if (!client || !isDeployed(client)) continue;
+      await checkDomain(domain, client);
+    }
+  } catch (error) {
+    console.error("[Domains] Check failed:", error);
+  }
+}
+
+async function attachDomain(domain: ClientDomain, client: Client): Promise<void> {
+  try {
+    const provider = await createClientProvider(client);
+    const details = await provider.addCustomDomain(
+      client.railwayProjectId!,
+      client.railwayServiceId!,
+      domain.domain,
+      client.railwayEnvironmentId || undefined
+    );
+    await updateClientDomain(domain.id, toDomainUpdates(details));
+    console.log(`[Domains] Added ${domain.domain} to client ${client.name}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await updateClientDomain(domain.id, {
+      verificationStatus: "failed",
+      errorMessage: message,
+      lastCheckedAt: new Date(),
+    });
+    console.error(`[Domains] Failed to add ${domain.domain} to client ${client.name}: ${message}`);
+  }
+}
+
+async function checkDomain(domain: ClientDomain, client: Client): Promise<void> {
+  try {
+    const provider = await createClientProvider(client);
+    const details = await provider.getCustomDomain(
+      client.railwayProjectId!,
+      domain.railwayDomainId!
+    );
+    await updateClientDomain(domain.id, toDomainUpdates(details));
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      await updateClientDomain(domain.id, {
+        railwayDomainId: null,
+        verificationStatus: "failed",
+        errorMessage: "The domain was removed from the Railway service",
+        lastCheckedAt: new Date(),
+      });
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    await updateClientDomain(domain.id, { errorMessage: message, lastCheckedAt: new Date() });
+    console.error(`[Domains] Failed to check ${domain.domain}: ${message}`);
+  }
+}
@@ -0,0 +1,150 @@
+import {
+  getClient,
+  getDeployment,
+  getAdminUserById,
+  acquireClientLock,
+  releaseClientLock,
+  type Client,
+} from "../database/db";
+
+/**
+ * Client Deployment Lock
+ * A lease on the client row, held by a deployment from the moment it is queued
+ * until it finishes. While it is held, other deployments and configuration
+ * changes for the client are refused. The worker renews the lease while a job
+ * runs; one left behind by a crashed process lapses after DEPLOY_LOCK_TTL.
+ */
+
+const LOCK_TTL = parseInt(process.env.DEPLOY_LOCK_TTL || "900000");
+// Running jobs renew their lease every third of the TTL
+const RENEW_INTERVAL = LOCK_TTL / 3;
+
+/**
+ * Thrown when a client is locked by another deployment. The message names the
+ * deployment and the admin who started it.
+ */
+export class ClientLockedError extends Error {
+  constructor(
+    message: string,
+    readonly lockId: string
+  ) {
+    super(message);
+    this.name = "ClientLockedError";
+  }
+}
+
+function lockExpiry(): Date {
+  return new Date(Date.now() + LOCK_TTL);
+}
+
+function isLocked(client: Client): boolean {
+  return (
+    !!client.deployLockId &&
+    !!client.deployLockExpiresAt &&
+    new Date(client.deployLockExpiresAt).getTime() > Date.now()
+  );
+}
+
+/**
+ * Take the lock of a client for a deployment, or throw `ClientLockedError`
+ */
+export async function acquireDeploymentLock(
+  clientId: string,
+  deploymentId: string,
+  deployedBy: string | null
+): Promise<void> {
+  if (await acquireClientLock(clientId, deploymentId, deployedBy, lockExpiry())) {
+    return;
+  }
+  throw await lockedError(clientId);
+}
+
+/**
+ * Extend the lease of a deployment's lock. Returns false if another
+ * deployment took the lock after it lapsed.
+ */
+export async function renewDeploymentLock(
+  clientId: string,
+  deploymentId: string,
+  deployedBy: string | null
+): Promise<boolean> {
+  return await acquireClientLock(clientId, deploymentId, deployedBy, lockExpiry());
+}
+
+export async function releaseDeploymentLock(clientId: string, deploymentId: string): Promise<void> {
+  await releaseClientLock(clientId, deploymentId);
+}
+
+/**
+ * Keep renewing a running deployment's lock until the returned function is called
+ */
+export function keepDeploymentLock(
+  clientId: string,
+  deploymentId: string,
+  deployedBy: string | null
+): () => void {
+  const timer = setInterval(() => {
+    renewDeploymentLock(clientId, deploymentId, deployedBy)
+      .then((renewed) => {
+        if (!renewed) {
+          console.warn(`[Deploy Worker] Deployment ${deploymentId} lost the lock of client ${clientId}`);
+        }
+      })
+      .catch((error) => {
+        console.error(`[Deploy Worker] Failed to renew the lock of client ${clientId}:`, error);
+      });
+  }, RENEW_INTERVAL);
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Whether a running job, in this or another process, still renews a
+ * deployment's lock. A lease that missed a renewal was left behind by a job
+ * that stopped.
+ */
+export function isDeploymentLockRenewed(client: Client, deploymentId: string): boolean {
+  if (client.deployLockId !== deploymentId || !client.deployLockExpiresAt) {
+    return false;
+  }
+  const renewedAt = new Date(client.deployLockExpiresAt).getTime() - LOCK_TTL;
+  return Date.now() - renewedAt < RENEW_INTERVAL * 1.5;
+}
+
+/**
+ * Throw `ClientLockedError` if a deployment holds the client's lock
+ */
+export async function assertClientUnlocked(clientId: string): Promise<void> {
+  const record = await getClient(clientId);
+  if (record && isLocked(record.client)) {
+    throw await lockedError(clientId, record.client);
+  }
+}
+
+/**
+ * Describe who holds a client's lock
+ */
+async function lockedError(clientId: string, client?: Client): Promise<ClientLockedError> {
+  const current = client ?? (await getClient(clientId))?.client;
+  if (!current?.deployLockId) {
+    return new ClientLockedError(`Client ${clientId} is locked by another deployment`, "");
+  }
+
+  const [deployment, holder] = await Promise.all([
+    getDeployment(current.deployLockId),
+    current.deployLockedBy ? getAdminUserById(current.deployLockedBy) : null,
+  ]);
+
+  const what = deployment
+    ? `a ${deployment.environment} ${deployment.deploymentType} (${deployment.status}, deployment ${deployment.id})`
+    : `deployment ${current.deployLockId}`;
+  const who = holder ? ` started by ${holder.name} <${holder.email}>` : "";
+  const until = current.deployLockExpiresAt
+    ? `; the lock expires at ${new Date(current.deployLockExpiresAt).toISOString()} unless renewed`
+    : "";
+
+  return new ClientLockedError(
+    `${current.name} is locked by ${what}${who}${until}`,
+    current.deployLockId
+  );
+}
@@ -0,0 +1,255 @@
+import {
+  getClient,
+  getAllClients,
+  updateClient,
+  updateClientLendpro,
+  updateClientBranding,
+  updateClientFeatures,
+  updateClientVisualizer,
+} from "../database/db";
+import { ClientDeployer } from "../scripts/deploy-client";
+import { buildClientConfig, resolveTarget } from "./client-deployment";
+import { encryptPassword } from "./crypto";
+import { createClientProvider } from "./railway-accounts";
+
+/**
+ * Config Drift
+ * Compares each active client's Railway service variables with what the portal
+ * would deploy, so edits made in the Railway dashboard don't go unnoticed.
+ * Drift is resolved by redeploying (the portal wins) or by importing the
+ * Railway value into the portal config.
+ */
+
+const CHECK_INTERVAL = parseInt(process.env.DRIFT_CHECK_INTERVAL || "900000");
+
+export interface DriftedVariable {
+  key: string;
+  // Value on Railway; undefined when only the portal sets the variable
+  railway?: string;
+  // Value the portal would deploy; undefined when only Railway has the variable
+  portal?: string;
+  secret: boolean;
+  // Whether the Railway value can be imported into the portal config
+  importable: boolean;
+}
+
+interface VariableImporter {
+  // The portal always sets the variable, so it cannot be imported as unset
+  required: boolean;
+  apply(clientId: string, value: string | undefined): Promise<void>;
+}
+
+const HEX_COLOR = /^#[0-9A-Fa-f]{6}$/;
+
+function hexColor(key: string, value: string | undefined): string | null {
+  if (value === undefined) return null;
+  if (!HEX_COLOR.test(value)) {
+    throw new Error(`${key} on Railway is not a #rrggbb color: ${value}`);
+  }
+  return value;
+}
+
+/**
+ * Where each variable built by the deployer lives in the portal config.
+ * NODE_ENV, PORT, DATABASE_URL and OAUTH_SERVER_URL are fixed by the deployer.
+ */
+const IMPORTERS: Record<string, VariableImporter> = {
+  LENDPRO_API_URL: {
+    required: true,
+    apply: (clientId, value) => updateClientLendpro(clientId, { apiUrl: value }),
+  },
+  LENDPRO_USERNAME: {
+    required: true,
+    apply: (clientId, value) => updateClientLendpro(clientId, { username: value }),
+  },
+  LENDPRO_PASSWORD: {
+    required: true,
+    apply: (clientId, value) => updateClientLendpro(clientId, { password: encryptPassword(value!) }),
+  },
+  LENDPRO_STORE_ID: {
+    required: true,
+    apply: (clientId, value) => updateClientLendpro(clientId, { storeId: value }),
+  },
+  LENDPRO_SALES_ID: {
+    required: true,
+    apply: (clientId, value) => updateClientLendpro(clientId, { salesId: value }),
+  },
+  LENDPRO_SALES_NAME: {
+    required: true,
+    apply: (clientId, value) => updateClientLendpro(clientId, { salesName: value }),
+  },
+  VISUALIZER_ENABLED: {
+    required: true,
+    apply: (clientId, value) => updateClientVisualizer(clientId, { enabled: value === "true" }),
+  },
+  VISUALIZER_EMBED_CODE: {
+    required: false,
+    apply: (clientId, value) => updateClientVisualizer(clientId, { embedCode: value ?? null }),
+  },
+  AUTOSYNC_API_KEY: {
+    required: false,
+    apply: (clientId, value) => updateClientVisualizer(clientId, { autoSyncApiKey: value ?? null }),
+  },
+  CART_ONLY_MODE: {
+    required: false,
+    apply: (clientId, value) => updateClientFeatures(clientId, { cartOnly: value === "true" }),
+  },
+  VITE_PRIMARY_COLOR: {
+    required: false,
+    apply: (clientId, value) =>
+      updateClientBranding(clientId, { primaryColor: hexColor("VITE_PRIMARY_COLOR", value) }),
+  },
+  VITE_SECONDARY_COLOR: {
+    required: false,
+    apply: (clientId, value) =>
+      updateClientBranding(clientId, { secondaryColor: hexColor("VITE_SECONDARY_COLOR", value) }),
+  },
+  VITE_COMPANY_NAME: {
+    required: false,
+    apply: (clientId, value) => updateClientBranding(clientId, { companyName: value ?? null }),
+  },
+  VITE_LOGO_URL: {
+    required: false,
+    apply: (clientId, value) => updateClientBranding(clientId, { logoUrl: value ?? null }),
+  },
+};
+
+function isImportable(key: string, railwayValue: string | undefined): boolean {
+  const importer = IMPORTERS[key];
+  return !!importer && (railwayValue !== undefined || !importer.required);
+}
+
+let running = false;
+let checkTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Parse the `clients.configDrift` column
+ */
+export function parseConfigDrift(configDrift: string | null): DriftedVariable[] {
+  if (!configDrift) return [];
+  try {
+    const parsed = JSON.parse(configDrift);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Compare a client's Railway variables with its portal config and store the result
+ */
+export async function checkClientDrift(clientId: string): Promise<DriftedVariable[]> {
+  const record = await getClient(clientId);
+  if (!record) {
+    throw new Error(`Client not found: ${clientId}`);
+  }
+
+  const deployer = new ClientDeployer(await createClientProvider(record.client));
+  const target = await resolveTarget(record.client, deployer);
+  const plan = await deployer.planDeployment(buildClientConfig(record), target);
+
+  // In plan terms "current" is Railway and "next" is the portal
+  const drift: DriftedVariable[] = [...plan.changed, ...plan.added, ...plan.removed].map((change) => ({
+    key: change.key,
+    railway: change.current,
+    portal: change.next,
+    secret: change.secret,
+    importable: isImportable(change.key, change.current),
+  }));
+
+  await updateClient(clientId, {
+    configDrift: drift.length > 0 ? JSON.stringify(drift) : null,
+    driftCheckedAt: new Date(),
+  });
+
+  return drift;
+}
+
+/**
+ * Copy a variable's Railway value into the portal config, then check again.
+ * A variable missing on Railway clears the optional portal field.
+ */
+export async function importDriftValue(clientId: string, key: string): Promise<DriftedVariable[]> {
+  const record = await getClient(clientId);
+  if (!record) {
+    throw new Error(`Client not found: ${clientId}`);
+  }
+
+  const importer = IMPORTERS[key];
+  if (!importer) {
+    throw new Error(`${key} is set by the deployer and cannot be imported; redeploy to reconcile it`);
+  }
+
+  const provider = await createClientProvider(record.client);
+  const target = await resolveTarget(record.client, new ClientDeployer(provider));
+  const variables = await provider.getEnvironmentVariables(
+    target.projectId,
+    target.serviceId,
+    target.environmentId
+  );
+  const value = variables.find((variable) => variable.key === key)?.value;
+
+  if (value === undefined && importer.required) {
+    throw new Error(`${key} is not set on Railway and is required by the portal config`);
+  }
+
+  await importer.apply(clientId, value);
+  console.log(`[Drift] Imported ${key} from Railway for client ${record.client.name}`);
+
+  return await checkClientDrift(clientId);
+}
+
+/**
+ * Start checking active clients for drift in the background
+ */
+export function startDriftMonitor(): void {
+  if (running) return;
+  running = true;
+  console.log("[Drift] Monitor started");
+  scheduleNextCheck(CHECK_INTERVAL);
+}
+
+export function stopDriftMonitor(): void {
+  running = false;
+  if (checkTimer) {
+    clearTimeout(checkTimer);
+    checkTimer = null;
+  }
+  console.log("[Drift] Monitor stopped");
+}
+
+function scheduleNextCheck(delay: number) {
+  checkTimer = setTimeout(() => {
+    checkTimer = null;
+    checkAllClients().finally(() => {
+      if (running) {
+        scheduleNextCheck(CHECK_INTERVAL);
+      }
+    });
+  }, delay);
+}
+
+async function checkAllClients() {
+  try {
+    // Clients being deployed are skipped; their variables are about to change
+    const clients = (await getAllClients()).filter(
+      (client) => client.status === "active" && client.railwayProjectId
+    );
+
+    for (const client of clients) {
+      if (!running) return;
+      try {
+        const drift = await checkClientDrift(client.id);
+        if (drift.length > 0) {
+          console.log(
+            `[Drift] ${client.name}: ${drift.map((variable) => variable.key).join(", ")} differ from the portal config`
+          );
+        }
+      } catch (error) {
+        console.error(`[Drift] Failed to check client ${client.name}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("[Drift] Check failed:", error);
+  }
+}
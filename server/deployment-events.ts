@@ -0,0 +1,152 @@
+import { EventEmitter } from "events";
+import type { Request, Response } from "express";
+import { getDeployment, type Deployment } from "../database/db";
+import type { DeploymentLogEntry } from "../scripts/deploy-client";
+import { getCurrentUser } from "./auth";
+
+/**
+ * Deployment Events
+ * In-process pub/sub for deployment progress, exposed to the browser as a
+ * Server-Sent Events stream at /api/deployments/:id/events
+ */
+
+export type DeploymentEvent =
+  | { type: "log"; entry: DeploymentLogEntry }
+  | {
+      type: "status";
+      status: Deployment["status"];
+      errorMessage?: string | null;
+      completedAt?: Date | null;
+    };
+
+const TERMINAL_STATUSES: Deployment["status"][] = ["success", "failed", "cancelled"];
+const KEEPALIVE_INTERVAL = 15000;
+
+const bus = new EventEmitter();
+// One listener per open browser tab watching a deployment
+bus.setMaxListeners(0);
+
+/**
+ * Publish a progress event for a deployment
+ */
+export function publishDeploymentEvent(deploymentId: string, event: DeploymentEvent): void {
+  bus.emit(deploymentId, event);
+}
+
+/**
+ * Subscribe to progress events for a deployment. Returns an unsubscribe function.
+ */
+export function subscribeToDeployment(
+  deploymentId: string,
+  listener: (event: DeploymentEvent) => void
+): () => void {
+  bus.on(deploymentId, listener);
+  return () => {
+    bus.off(deploymentId, listener);
+  };
+}
+
+/**
+ * Parse the persisted `deployments.logs` column
+ */
+export function parseDeploymentLogs(logs: string | null): DeploymentLogEntry[] {
+  if (!logs) return [];
+  try {
+    const parsed = JSON.parse(logs);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Express handler streaming a deployment's log entries and status changes.
+ * EventSource cannot send headers, so the auth token is read from `?token=`.
+ * Entries recorded before the client connected are replayed first.
+ */
+export async function deploymentEventsHandler(req: Request, res: Response) {
+  const token = typeof req.query.token === "string" ? req.query.token : null;
+  const user = token ? await getCurrentUser(token) : null;
+  if (!user) {
+    res.status(401).json({ error: "You must be logged in to access this resource" });
+    return;
+  }
+
+  const deploymentId = req.params.id;
+  const deployment = await getDeployment(deploymentId);
+  if (!deployment) {
+    res.status(404).json({ error: `Deployment not found: ${deploymentId}` });
+    return;
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+
+  const send = (event: DeploymentEvent) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  // Subscribe before replaying so nothing published in between is lost
+  const buffered: DeploymentEvent[] = [];
+  let replayed = false;
+  const unsubscribe = subscribeToDeployment(deploymentId, (event) => {
+    if (!replayed) {
+      buffered.push(event);
+      return;
+    }
+    send(event);
+    if (event.type === "status" && TERMINAL_STATUSES.includes(event.status)) {
+      close();
+    }
+  });
+
+  const keepalive = setInterval(() => {
+    res.write(": keepalive\n\n");
+  }, KEEPALIVE_INTERVAL);
+
+  function close() {
+    clearInterval(keepalive);
+    unsubscribe();
+    res.end();
+  }
+
+  req.on("close", () => {
+    clearInterval(keepalive);
+    unsubscribe();
+  });
+
+  const history = parseDeploymentLogs(deployment.logs);
+  for (const entry of history) {
+    send({ type: "log", entry });
+  }
+  send({
+    type: "status",
+    status: deployment.status,
+    errorMessage: deployment.errorMessage,
+    completedAt: deployment.completedAt,
+  });
+
+  replayed = true;
+
+  if (TERMINAL_STATUSES.includes(deployment.status)) {
+    close();
+    return;
+  }
+
+  // Skip entries that were already part of the persisted history
+  const seen = new Set(history.map((entry) => `${entry.timestamp}|${entry.step}|${entry.message}`));
+  for (const event of buffered) {
+    if (event.type === "log" && seen.has(`${event.entry.timestamp}|${event.entry.step}|${event.entry.message}`)) {
+      continue;
+    }
+    send(event);
+    if (event.type === "status" && TERMINAL_STATUSES.includes(event.status)) {
+      close();
+      return;
+    }
+  }
+}
@@ -0,0 +1,737 @@
+import { EventEmitter } from "events";
+import { nanoid } from "nanoid";
+import {
+  getClient,
+  updateClient,
+  createDeployment,
+  updateDeployment,
+  getDeployment,
+  getPendingDeployments,
+  claimDeployment,
+  cancelPendingDeployment,
+  requeueInterruptedDeployments,
+  getAdminUserById,
+  getClientPreview,
+  updateClientPreview,
+  logAdminAction,
+  type Client,
+  type Deployment,
+  type InsertDeployment,
+} from "../database/db";
+import {
+  ClientDeployer,
+  DEFAULT_GITHUB_REPO,
+  DEFAULT_GITHUB_BRANCH,
+  type DeploymentLogEntry,
+  type DeploymentResult,
+  type DeploymentSnapshot,
+} from "../scripts/deploy-client";
+import type { SmokeCheckResult } from "../scripts/smoke-tests";
+import { encryptPassword, decryptPassword } from "./crypto";
+import { getEmailService } from "./email";
+import { publishDeploymentEvent, parseDeploymentLogs } from "./deployment-events";
+import { buildClientConfig, resolveTarget, resolveStagingTarget } from "./client-deployment";
+import { recordDeployedDomain, attachPendingDomains } from "./client-domains";
+import {
+  acquireDeploymentLock,
+  renewDeploymentLock,
+  releaseDeploymentLock,
+  keepDeploymentLock,
+  isDeploymentLockRenewed,
+} from "./client-lock";
+import { handleFailedDeployment } from "./auto-rollback";
+import { buildPreviewConfig, previewServiceName } from "./previews";
+import { createClientProvider } from "./railway-accounts";
+
+/**
+ * Deployment Worker
+ * Runs queued client deployments in the background. The `deployments` table is
+ * the queue: rows start as "pending" and the worker moves them through
+ * building/deploying to success or failed.
+ * Staging and preview deployments leave the production fields and status of
+ * the client as they were; their progress is tracked on the deployment and
+ * preview rows only.
+ * Each deployment holds its client's lock (see client-lock.ts) from the moment
+ * it is queued until it finishes. Failed production deployments are passed to
+ * auto-rollback.ts once the lock is released.
+ */
+
+const POLL_INTERVAL = parseInt(process.env.DEPLOY_WORKER_POLL_INTERVAL || "5000");
+const CONCURRENCY = parseInt(process.env.DEPLOY_WORKER_CONCURRENCY || "2");
+// With the Railway webhook set up, deployment status is only polled this often as a fallback
+const WEBHOOKS_ENABLED = !!process.env.RAILWAY_WEBHOOK_SECRET;
+const WEBHOOK_FALLBACK_POLL_INTERVAL = parseInt(
+  process.env.RAILWAY_WEBHOOK_FALLBACK_POLL_INTERVAL || "30000"
+);
+
+// Railway statuses a deployment ends in
+const FINISHED_RAILWAY_STATUSES = ["SUCCESS", "FAILED", "CRASHED"];
+
+// Audit action for each finished deployment type that is not a plain deploy
+const COMPLETED_ACTIONS: Partial<Record<Deployment["deploymentType"], string>> = {
+  rollback: "rollback_client_completed",
+  promote: "promote_client_completed",
+  preview: "preview_client_completed",
+};
+
+let running = false;
+let pollTimer: NodeJS.Timeout | null = null;
+// Running jobs in this process, keyed by deployment id
+const activeJobs = new Map<string, AbortController>();
+// Railway status changes from the webhook, keyed by Railway deployment id
+const railwayStatusEvents = new EventEmitter();
+railwayStatusEvents.setMaxListeners(0);
+
+/**
+ * Queue a deployment for a client and return the deployment id.
+ * Throws `ClientLockedError` if another deployment holds the client's lock.
+ */
+export async function enqueueDeployment(data: {
+  clientId: string;
+  deploymentType: InsertDeployment["deploymentType"];
+  environment?: Deployment["environment"];
+  deployedBy: string;
+  previousClientStatus: Client["status"];
+  sourceDeploymentId?: string;
+  rolloutId?: string;
+  rolloutWave?: number;
+  // Build this commit instead of the client's ref, recorded as this release version
+  commitSha?: string;
+  version?: string;
+  previewId?: string;
+}): Promise<string> {
+  const deploymentId = nanoid();
+  await acquireDeploymentLock(data.clientId, deploymentId, data.deployedBy || null);
+
+  try {
+    await createDeployment({
+      id: deploymentId,
+      clientId: data.clientId,
+      status: "pending",
+      deploymentType: data.deploymentType,
+      environment: data.environment,
+      deployedBy: data.deployedBy,
+      sourceDeploymentId: data.sourceDeploymentId,
+      previousClientStatus: data.previousClientStatus,
+      rolloutId: data.rolloutId,
+      rolloutWave: data.rolloutWave,
+      githubCommitSha: data.commitSha,
+      version: data.version,
+      previewId: data.previewId,
+    });
+  } catch (error) {
+    await releaseDeploymentLock(data.clientId, deploymentId);
+    throw error;
+  }
+
+  if ((data.environment ?? "production") === "production") {
+    await updateClient(data.clientId, { status: "deploying" });
+  }
+
+  // Pick the job up right away instead of waiting for the next poll
+  wakeDeploymentWorker();
+
+  return deploymentId;
+}
+
+/**
+ * Start the worker loop. Deployments interrupted by a restart are queued again.
+ */
+export async function startDeploymentWorker(): Promise<void> {
+  if (running) return;
+  running = true;
+
+  try {
+    const requeued = await requeueInterruptedDeployments();
+    if (requeued > 0) {
+      console.log(`[Deploy Worker] Requeued ${requeued} interrupted deployment(s)`);
+    }
+  } catch (error) {
+    console.error("[Deploy Worker] Failed to requeue interrupted deployments:", error);
+  }
+
+  console.log(`[Deploy Worker] Started (concurrency: ${CONCURRENCY})`);
+  scheduleNextPoll(0);
+}
+
+/**
+ * Stop picking up new jobs. Jobs already running are left to finish.
+ */
+export function stopDeploymentWorker(): void {
+  running = false;
+  if (pollTimer) {
+    clearTimeout(pollTimer);
+    pollTimer = null;
+  }
+  console.log("[Deploy Worker] Stopped");
+}
+
+/**
+ * Trigger an immediate poll of the queue
+ */
+export function wakeDeploymentWorker(): void {
+  if (running) {
+    scheduleNextPoll(0);
+  }
+}
+
+function scheduleNextPoll(delay: number) {
+  if (pollTimer) {
+    clearTimeout(pollTimer);
+  }
+  pollTimer = setTimeout(() => {
+    pollTimer = null;
+    poll().finally(() => {
+      if (running && !pollTimer) {
+        scheduleNextPoll(POLL_INTERVAL);
+      }
+    });
+  }, delay);
+}
+
+async function poll() {
+  const slots = CONCURRENCY - activeJobs.size;
+  if (!running || slots <= 0) return;
+
+  try {
+    const pending = await getPendingDeployments(slots);
+
+    for (const deployment of pending) {
+      if (activeJobs.has(deployment.id)) continue;
+      if (!(await claimDeployment(deployment.id))) continue;
+
+      publishDeploymentEvent(deployment.id, { type: "status", status: "building" });
+      startJob(deployment, (signal) => executeDeployment(deployment, signal));
+    }
+  } catch (error) {
+    console.error("[Deploy Worker] Poll failed:", error);
+  }
+}
+
+/**
+ * Run work on a deployment as an active job of this process
+ */
+function startJob(deployment: Deployment, work: (signal: AbortSignal) => Promise<void>): void {
+  const controller = new AbortController();
+  activeJobs.set(deployment.id, controller);
+  runDeployment(deployment, () => work(controller.signal))
+    .catch((error) => {
+      console.error(`[Deploy Worker] Job ${deployment.id} crashed:`, error);
+    })
+    .finally(() => {
+      activeJobs.delete(deployment.id);
+      wakeDeploymentWorker();
+    });
+}
+
+/**
+ * Cancel a queued or running deployment.
+ * Queued jobs are cancelled right away; running jobs are aborted and the worker
+ * cancels the Railway deployment and restores the client status.
+ */
+export async function cancelDeployment(deploymentId: string): Promise<void> {
+  const deployment = await getDeployment(deploymentId);
+  if (!deployment) {
+    throw new Error(`Deployment not found: ${deploymentId}`);
+  }
+
+  if (deployment.status === "pending" && (await cancelPendingDeployment(deploymentId))) {
+    publishDeploymentEvent(deploymentId, { type: "status", status: "cancelled", completedAt: new Date() });
+    await restoreClientStatus(deployment);
+    await failPreview(deployment, "Deployment cancelled");
+    await releaseDeploymentLock(deployment.clientId, deploymentId);
+    return;
+  }
+
+  const controller = activeJobs.get(deploymentId);
+  if (controller) {
+    controller.abort();
+    return;
+  }
+
+  const current = await getDeployment(deploymentId);
+  if (current && (current.status === "building" || current.status === "deploying")) {
+    // Claimed but not running in this process (e.g. left over from a crash)
+    const record = await getClient(current.clientId);
+    if (current.railwayDeploymentId && record) {
+      try {
+        const provider = await createClientProvider(record.client);
+        await provider.cancelDeployment(current.railwayDeploymentId);
+      } catch (error) {
+        console.error(`[Deploy Worker] Failed to cancel Railway deployment ${current.railwayDeploymentId}:`, error);
+      }
+    }
+    await setDeploymentStatus(deploymentId, { status: "cancelled", completedAt: new Date() });
+    await restoreClientStatus(current);
+    await failPreview(current, "Deployment cancelled");
+    await releaseDeploymentLock(current.clientId, deploymentId);
+    return;
+  }
+
+  throw new Error(`Deployment ${deploymentId} is already ${current?.status ?? deployment.status}`);
+}
+
+/**
+ * Apply a Railway deployment status received by the webhook.
+ * A job running in this process is woken so its deployer checks the status
+ * right away and finishes the deployment itself. A job in another process
+ * still renews the client's lock and is left to do the same. A running row
+ * that no job holds any more (its job crashed or its process stopped) is
+ * settled here once Railway finishes: failures right away, successes after
+ * the smoke tests passed, each with the usual notifications.
+ */
+export async function applyRailwayDeploymentStatus(
+  deployment: Deployment,
+  railwayStatus: string
+): Promise<"woken" | "settling" | "ignored"> {
+  if (activeJobs.has(deployment.id)) {
+    railwayStatusEvents.emit(deployment.railwayDeploymentId!, railwayStatus);
+    return "woken";
+  }
+
+  if (deployment.status !== "building" && deployment.status !== "deploying") {
+    return "ignored";
+  }
+  if (!FINISHED_RAILWAY_STATUSES.includes(railwayStatus)) {
+    return "ignored";
+  }
+
+  const record = await getClient(deployment.clientId);
+  if (record && isDeploymentLockRenewed(record.client, deployment.id)) {
+    return "ignored";
+  }
+
+  startJob(deployment, (signal) => settleDeployment(deployment, railwayStatus, signal));
+  return "settling";
+}
+
+/**
+ * Wait for a webhook status change of a Railway deployment, at most the fallback poll interval
+ */
+function waitForRailwayStatus(railwayDeploymentId: string, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, WEBHOOK_FALLBACK_POLL_INTERVAL);
+    railwayStatusEvents.on(railwayDeploymentId, done);
+    signal?.addEventListener("abort", done, { once: true });
+
+    function done() {
+      clearTimeout(timer);
+      railwayStatusEvents.off(railwayDeploymentId, done);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * Run a single claimed deployment to completion, holding the client's lock
+ * until it finishes. A job whose lock lapsed while it was queued and was taken
+ * by another deployment fails instead of running alongside it.
+ */
+async function runDeployment(deployment: Deployment, work: () => Promise<void>): Promise<void> {
+  const { clientId, deployedBy } = deployment;
+  if (!(await renewDeploymentLock(clientId, deployment.id, deployedBy))) {
+    await setDeploymentStatus(deployment.id, {
+      status: "failed",
+      errorMessage: "Another deployment took the client's lock while this one was queued",
+      completedAt: new Date(),
+    });
+    await failPreview(deployment, "Another deployment took the client's lock while this one was queued");
+    return;
+  }
+
+  const stopRenewing = keepDeploymentLock(clientId, deployment.id, deployedBy);
+  try {
+    await work();
+  } finally {
+    stopRenewing();
+    await releaseDeploymentLock(clientId, deployment.id);
+  }
+
+  const finished = await getDeployment(deployment.id);
+  if (finished?.status === "failed") {
+    await handleFailedDeployment(finished);
+  }
+}
+
+async function executeDeployment(deployment: Deployment, signal: AbortSignal): Promise<void> {
+  console.log(`[Deploy Worker] Running deployment ${deployment.id} for client ${deployment.clientId}`);
+
+  const client = await getClient(deployment.clientId);
+  if (!client) {
+    await setDeploymentStatus(deployment.id, {
+      status: "failed",
+      errorMessage: `Client not found: ${deployment.clientId}`,
+      completedAt: new Date(),
+    });
+    return;
+  }
+
+  const recordLog = createLogRecorder(deployment);
+  const staging = deployment.environment === "staging";
+  const preview = deployment.previewId ? await getClientPreview(deployment.previewId) : null;
+
+  try {
+    if (deployment.environment === "production") {
+      await updateClient(client.client.id, { status: "deploying" });
+    }
+
+    const clientDeployer = new ClientDeployer(await createClientProvider(client.client));
+
+    if (deployment.previewId && !preview) {
+      throw new Error(`Preview not found: ${deployment.previewId}`);
+    }
+    const clientConfig = preview
+      ? buildPreviewConfig(buildClientConfig(client), preview)
+      : buildClientConfig(client);
+
+    const hooks = {
+      signal,
+      onLog: recordLog,
+      onDeploymentTriggered: async (railwayDeploymentId: string) => {
+        await setDeploymentStatus(deployment.id, { status: "deploying", railwayDeploymentId });
+      },
+      waitForStatusEvent: WEBHOOKS_ENABLED ? waitForRailwayStatus : undefined,
+      onSmokeTests: async (results: SmokeCheckResult[]) => {
+        await updateDeployment(deployment.id, { smokeTestResults: JSON.stringify(results) });
+      },
+      onServiceCreated: async (serviceId: string, role: "web" | "mysql") => {
+        if (preview) {
+          await updateClientPreview(
+            preview.id,
+            role === "mysql" ? { railwayMysqlServiceId: serviceId } : { railwayServiceId: serviceId }
+          );
+        }
+      },
+    };
+
+    // Rollbacks and promotions build the ref of their source deployment,
+    // everything else the client's current ref
+    const snapshot =
+      deployment.deploymentType === "rollback" || deployment.deploymentType === "promote"
+        ? await loadSourceSnapshot(deployment)
+        : null;
+    // A release commit set when the deployment was queued (upgrade campaigns)
+    // wins over the client's ref; its version is the release tag
+    if (!snapshot && deployment.githubCommitSha) {
+      clientConfig.source = { ...clientConfig.source, commitSha: deployment.githubCommitSha };
+    }
+    const gitRef = snapshot ? snapshot.gitRef : clientDeployer.resolveGitRef(clientConfig);
+    await updateDeployment(deployment.id, {
+      githubRepo: gitRef.repo,
+      githubBranch: gitRef.branch,
+      githubCommitSha: gitRef.commitSha || null,
+    });
+
+    let result;
+    if (preview) {
+      const target = await resolveTarget(client.client, clientDeployer);
+      result = await clientDeployer.deployPreview(
+        clientConfig,
+        target,
+        {
+          name: previewServiceName(preview),
+          serviceId: preview.railwayServiceId || undefined,
+          mysqlServiceId: preview.railwayMysqlServiceId || undefined,
+        },
+        hooks
+      );
+      if (!result.success) {
+        // Keep the service ids only if the failed preview's services could not be removed
+        await updateClientPreview(preview.id, {
+          railwayServiceId: result.orphanedResources?.serviceId ?? null,
+          railwayMysqlServiceId: result.orphanedResources?.mysqlServiceId ?? null,
+        });
+      }
+    } else if (staging) {
+      const target = await resolveStagingTarget(client.client, clientDeployer, hooks);
+      result = snapshot
+        ? await clientDeployer.rollbackClient(clientConfig, target, snapshot, hooks)
+        : await clientDeployer.updateClient(clientConfig, target, hooks);
+    } else if (snapshot) {
+      const target = await resolveTarget(client.client, clientDeployer);
+      result =
+        deployment.deploymentType === "promote"
+          ? await clientDeployer.promoteClient(clientConfig, target, snapshot, hooks)
+          : await clientDeployer.rollbackClient(clientConfig, target, snapshot, hooks);
+    } else if (client.client.railwayProjectId) {
+      // Redeploy in place: reuse the existing project, service and database
+      const target = await resolveTarget(client.client, clientDeployer);
+      result = await clientDeployer.updateClient(clientConfig, target, hooks);
+    } else {
+      // Remove whatever an earlier failed attempt left behind before creating a new project
+      if (client.client.railwayOrphanedProjectId) {
+        const removed = await clientDeployer.cleanupOrphanedProject(
+          client.client.railwayOrphanedProjectId,
+          hooks
+        );
+        if (removed) {
+          await updateClient(client.client.id, { railwayOrphanedProjectId: null });
+        }
+      }
+
+      result = await clientDeployer.deployClient(clientConfig, hooks);
+    }
+
+    if (result.orphanedResources?.projectId) {
+      // Keep the id so a later retry or client delete can remove the project
+      await updateClient(client.client.id, {
+        railwayOrphanedProjectId: result.orphanedResources.projectId,
+      });
+    }
+
+    if (result.cancelled) {
+      await setDeploymentStatus(deployment.id, { status: "cancelled", completedAt: new Date() });
+      await restoreClientStatus(deployment);
+      await failPreview(deployment, "Deployment cancelled");
+      return;
+    }
+
+    if (!result.success) {
+      throw new Error(result.error || "Deployment failed");
+    }
+
+    await completeDeployment(deployment, client.client, result);
+  } catch (error) {
+    await recordFailedDeployment(deployment, client.client, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Finish a deployment from a Railway status when no job is running it any
+ * more. A success is only recorded once the service passed the smoke tests.
+ */
+async function settleDeployment(deployment: Deployment, railwayStatus: string, signal: AbortSignal): Promise<void> {
+  console.log(`[Deploy Worker] Settling deployment ${deployment.id} from Railway status ${railwayStatus}`);
+
+  const record = await getClient(deployment.clientId);
+  if (!record) {
+    await setDeploymentStatus(deployment.id, {
+      status: "failed",
+      errorMessage: `Client not found: ${deployment.clientId}`,
+      completedAt: new Date(),
+    });
+    return;
+  }
+  const client = record.client;
+
+  if (railwayStatus !== "SUCCESS") {
+    await recordFailedDeployment(deployment, client, `Deployment failed with status: ${railwayStatus}`);
+    return;
+  }
+
+  const preview = deployment.previewId ? await getClientPreview(deployment.previewId) : null;
+  const serviceId = deployment.previewId ? preview?.railwayServiceId : client.railwayServiceId;
+  if (!client.railwayProjectId || !serviceId || !deployment.railwayDeploymentId) {
+    await recordFailedDeployment(deployment, client, "The deployment's Railway service is unknown, so it could not be verified");
+    return;
+  }
+
+  const config = preview ? buildPreviewConfig(buildClientConfig(record), preview) : buildClientConfig(record);
+  const environmentId =
+    deployment.environment === "staging" ? client.railwayStagingEnvironmentId : client.railwayEnvironmentId;
+  const clientDeployer = new ClientDeployer(await createClientProvider(client));
+  const result = await clientDeployer.verifyDeployment(
+    config,
+    {
+      projectId: client.railwayProjectId,
+      serviceId,
+      environmentId: environmentId || undefined,
+      mysqlServiceId: (preview ? preview.railwayMysqlServiceId : client.railwayMysqlServiceId) || undefined,
+    },
+    deployment.railwayDeploymentId,
+    {
+      repo: deployment.githubRepo || DEFAULT_GITHUB_REPO,
+      branch: deployment.githubBranch || DEFAULT_GITHUB_BRANCH,
+      commitSha: deployment.githubCommitSha || undefined,
+    },
+    {
+      signal,
+      onLog: createLogRecorder(deployment),
+      onSmokeTests: async (results: SmokeCheckResult[]) => {
+        await updateDeployment(deployment.id, { smokeTestResults: JSON.stringify(results) });
+      },
+    }
+  );
+
+  if (result.cancelled) {
+    await setDeploymentStatus(deployment.id, { status: "cancelled", completedAt: new Date() });
+    await restoreClientStatus(deployment);
+    await failPreview(deployment, "Deployment cancelled");
+  } else if (!result.success) {
+    await recordFailedDeployment(deployment, client, result.error || "Deployment failed");
+  } else {
+    await completeDeployment(deployment, client, result);
+  }
+}
+
+/**
+ * Record a successful deployment on its row and on the client or preview it
+ * deployed, then notify the admin who started it
+ */
+async function completeDeployment(deployment: Deployment, client: Client, result: DeploymentResult): Promise<void> {
+  // The commit Railway built; a branch head is only known once it was checked out
+  const commitSha = result.commitSha;
+
+  if (deployment.previewId) {
+    await updateClientPreview(deployment.previewId, {
+      status: "active",
+      railwayServiceId: result.serviceId,
+      serviceUrl: result.serviceUrl || null,
+      commitSha: commitSha || null,
+      errorMessage: null,
+    });
+  } else if (deployment.environment === "staging") {
+    await updateClient(client.id, {
+      stagingServiceUrl: result.serviceUrl || undefined,
+      stagingDeployedAt: new Date(),
+    });
+  } else {
+    await updateClient(client.id, {
+      status: "active",
+      railwayProjectId: result.projectId || undefined,
+      railwayProjectUrl: result.projectUrl || undefined,
+      railwayServiceId: result.serviceId || undefined,
+      railwayEnvironmentId: result.environmentId || undefined,
+      railwayMysqlServiceId: result.mysqlServiceId || undefined,
+      serviceUrl: result.serviceUrl || undefined,
+      lastDeployedAt: new Date(),
+      // Without a known commit the recorded release is left as it was
+      ...(commitSha && { deployedCommitSha: commitSha, deployedVersion: deployment.version }),
+      // Railway now matches the portal config
+      configDrift: null,
+      driftCheckedAt: new Date(),
+    });
+  }
+
+  await setDeploymentStatus(deployment.id, {
+    status: "success",
+    completedAt: new Date(),
+    githubCommitSha: commitSha || undefined,
+    configSnapshot: result.snapshot ? encryptPassword(JSON.stringify(result.snapshot)) : undefined,
+  });
+
+  // Domain problems are tracked per domain and never fail the deployment
+  if (deployment.environment === "production") {
+    try {
+      if (result.customDomain) {
+        await recordDeployedDomain(client.id, result.customDomain);
+      }
+      await attachPendingDomains(client.id);
+    } catch (error) {
+      console.error(`[Deploy Worker] Failed to update domains of client ${client.id}:`, error);
+    }
+  }
+
+  // The deployment is live: a failed audit entry or email must not fail it
+  try {
+    // The snapshot holds secrets, keep it out of the audit log
+    const { snapshot: _snapshot, ...summary } = result;
+    await logAdminAction({
+      action: COMPLETED_ACTIONS[deployment.deploymentType] ?? "deploy_client_completed",
+      resourceType: "deployment",
+      resourceId: deployment.id,
+      details: JSON.stringify(summary),
+      adminUserId: deployment.deployedBy ? parseInt(deployment.deployedBy) : undefined,
+    });
+
+    const deployer = deployment.deployedBy ? await getAdminUserById(deployment.deployedBy) : null;
+    if (deployer) {
+      await getEmailService().sendDeploymentSuccess(deployer.email, client.name, result.serviceUrl);
+    }
+  } catch (error) {
+    console.error(`[Deploy Worker] Failed to record completion of deployment ${deployment.id}:`, error);
+  }
+}
+
+/**
+ * Record a failed deployment and notify the admin who started it
+ */
+async function recordFailedDeployment(deployment: Deployment, client: Client, message: string): Promise<void> {
+  // A failed staging or preview deployment leaves production running as it was
+  if (deployment.environment !== "production") {
+    await failPreview(deployment, message);
+  } else {
+    await updateClient(client.id, { status: "failed" });
+  }
+  await setDeploymentStatus(deployment.id, {
+    status: "failed",
+    errorMessage: message,
+    completedAt: new Date(),
+  });
+
+  const deployer = deployment.deployedBy ? await getAdminUserById(deployment.deployedBy) : null;
+  if (deployer) {
+    await getEmailService().sendDeploymentFailure(deployer.email, client.name, message);
+  }
+}
+
+/**
+ * Put the client back to the status it had before a cancelled deployment.
+ * Only production deployments change the client status.
+ */
+async function restoreClientStatus(deployment: Deployment): Promise<void> {
+  if (deployment.environment !== "production") return;
+
+  let status = deployment.previousClientStatus;
+  if (!status || status === "deploying") {
+    const client = await getClient(deployment.clientId);
+    status = client?.client.railwayProjectId ? "active" : "inactive";
+  }
+  await updateClient(deployment.clientId, { status });
+}
+
+/**
+ * Mark the preview a deployment was building as failed
+ */
+async function failPreview(deployment: Deployment, message: string): Promise<void> {
+  if (deployment.previewId) {
+    await updateClientPreview(deployment.previewId, { status: "failed", errorMessage: message });
+  }
+}
+
+/**
+ * Load the configuration snapshot a rollback or promotion should restore
+ */
+async function loadSourceSnapshot(deployment: Deployment): Promise<DeploymentSnapshot> {
+  if (!deployment.sourceDeploymentId) {
+    throw new Error(`Deployment ${deployment.id} has no source deployment`);
+  }
+
+  const source = await getDeployment(deployment.sourceDeploymentId);
+  if (!source?.configSnapshot) {
+    throw new Error(`No configuration snapshot for deployment ${deployment.sourceDeploymentId}`);
+  }
+
+  return JSON.parse(decryptPassword(source.configSnapshot)) as DeploymentSnapshot;
+}
+
+/**
+ * Update a deployment's status and notify anyone streaming its progress
+ */
+async function setDeploymentStatus(
+  deploymentId: string,
+  updates: Partial<InsertDeployment> & { status: Deployment["status"] }
+): Promise<void> {
+  await updateDeployment(deploymentId, updates);
+  publishDeploymentEvent(deploymentId, {
+    type: "status",
+    status: updates.status,
+    errorMessage: updates.errorMessage,
+    completedAt: updates.completedAt,
+  });
+}
+
+/**
+ * Build an `onLog` hook that persists entries to `deployments.logs` and
+ * streams them live. Entries from an interrupted earlier run are kept.
+ */
+function createLogRecorder(deployment: Deployment) {
+  const entries = parseDeploymentLogs(deployment.logs);
+
+  return async (entry: DeploymentLogEntry) => {
+    entries.push(entry);
+    publishDeploymentEvent(deployment.id, { type: "log", entry });
+    await updateDeployment(deployment.id, { logs: JSON.stringify(entries) });
+  };
+}
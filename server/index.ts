@@ -7,6 +7,14 @@ import fs from "fs";
 import { appRouter } from "./router";
 import { createContext } from "./trpc";
 import { migrateAdminUsersTable } from "./migrate";
+import { startDeploymentWorker, stopDeploymentWorker } from "./deployment-worker";
+import { startRolloutManager, stopRolloutManager } from "./rollout-manager";
+import { startDriftMonitor, stopDriftMonitor } from "./config-drift";
+import { startStatusReconciler, stopStatusReconciler } from "./status-reconciler";
+import { startDomainMonitor, stopDomainMonitor } from "./client-domains";
+import { startPreviewReaper, stopPreviewReaper } from "./previews";
+import { deploymentEventsHandler } from "./deployment-events";
+import { railwayWebhookHandler } from "./railway-webhook";
 import { fileURLToPath } from "url";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -34,6 +42,26 @@ app.get("/api/health", (req, res) => {
   });
 });
 
+// Live deployment progress (Server-Sent Events)
+app.get("/api/deployments/:id/events", (req, res) => {
+  deploymentEventsHandler(req, res).catch((error) => {
+    console.error("[Deployment Events] Stream failed:", error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: "Failed to stream deployment events" });
+    } else {
+      res.end();
+    }
+  });
+});
+
+// Railway deployment events
+app.post("/api/webhooks/railway", (req, res) => {
+  railwayWebhookHandler(req, res).catch((error) => {
+    console.error("[Railway Webhook] Failed to handle event:", error);
+    res.status(500).json({ error: "Failed to handle webhook" });
+  });
+});
+
 // tRPC API
 app.use(
   "/api/trpc",
@@ -97,11 +125,26 @@ server.listen(PORT, HOST, () => {
   console.log(`[Admin Portal] API: http://${HOST}:${PORT}/api/trpc`);
   console.log(`[Admin Portal] Health check: http://${HOST}:${PORT}/api/health`);
   console.log(`[Admin Portal] Waiting for health checks from Railway...`);
+
+  startDeploymentWorker().catch((error) => {
+    console.error("[Admin Portal] Failed to start deployment worker:", error);
+  });
+  startRolloutManager();
+  startDriftMonitor();
+  startStatusReconciler();
+  startDomainMonitor();
+  startPreviewReaper();
 });
 
 // Graceful shutdown
 process.on("SIGTERM", () => {
   console.log("[Admin Portal] SIGTERM received, shutting down gracefully");
+  stopDeploymentWorker();
+  stopRolloutManager();
+  stopDriftMonitor();
+  stopStatusReconciler();
+  stopDomainMonitor();
+  stopPreviewReaper();
   server.close(() => {
     console.log("[Admin Portal] Server closed");
     process.exit(0);
@@ -110,6 +153,12 @@ process.on("SIGTERM", () => {
 
 process.on("SIGINT", () => {
   console.log("[Admin Portal] SIGINT received, shutting down gracefully");
+  stopDeploymentWorker();
+  stopRolloutManager();
+  stopDriftMonitor();
+  stopStatusReconciler();
+  stopDomainMonitor();
+  stopPreviewReaper();
   server.close(() => {
     console.log("[Admin Portal] Server closed");
     process.exit(0);
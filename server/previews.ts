@@ -0,0 +1,210 @@
+import { nanoid } from "nanoid";
+import {
+  getClient,
+  createClientPreview,
+  updateClientPreview,
+  deleteClientPreview,
+  getClientPreview,
+  getExpiredPreviews,
+  logAdminAction,
+  type Client,
+  type ClientPreview,
+} from "../database/db";
+import { ClientDeployer } from "../scripts/deploy-client";
+import type { ClientConfig } from "../config/client-config.schema";
+import { enqueueDeployment } from "./deployment-worker";
+import { createClientProvider } from "./railway-accounts";
+
+/**
+ * Client Previews
+ * A preview is a temporary service in a client's Railway project, built from a
+ * storefront branch with the client's own configuration but sandbox LendPro
+ * credentials and a throwaway database of its own, so sales and QA can try
+ * unreleased work with the client's branding without touching production
+ * data. Each preview expires after its TTL and a background pass removes its
+ * services.
+ */
+
+export const DEFAULT_PREVIEW_TTL_HOURS = parseInt(process.env.PREVIEW_TTL_HOURS || "24");
+const CHECK_INTERVAL = parseInt(process.env.PREVIEW_CHECK_INTERVAL || "300000");
+
+let running = false;
+let checkTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Sandbox LendPro credentials from the environment, or null when they are not
+ * configured. The sales name defaults to the client's own.
+ */
+export function sandboxLendproConfig(
+  salesName: string
+): ClientConfig["lendpro"] | null {
+  const { LENDPRO_SANDBOX_USERNAME, LENDPRO_SANDBOX_PASSWORD, LENDPRO_SANDBOX_STORE_ID, LENDPRO_SANDBOX_SALES_ID } =
+    process.env;
+  if (!LENDPRO_SANDBOX_USERNAME || !LENDPRO_SANDBOX_PASSWORD || !LENDPRO_SANDBOX_STORE_ID || !LENDPRO_SANDBOX_SALES_ID) {
+    return null;
+  }
+
+  return {
+    apiUrl: process.env.LENDPRO_SANDBOX_API_URL || "https://apisg.mylendpro.com",
+    username: LENDPRO_SANDBOX_USERNAME,
+    password: LENDPRO_SANDBOX_PASSWORD,
+    storeId: LENDPRO_SANDBOX_STORE_ID,
+    salesId: LENDPRO_SANDBOX_SALES_ID,
+    salesName: process.env.LENDPRO_SANDBOX_SALES_NAME || salesName,
+  };
+}
+
+/**
+ * A client's config as deployed to one of its previews: the preview's branch
+ * of the client's repo, and sandbox LendPro credentials
+ */
+export function buildPreviewConfig(config: ClientConfig, preview: ClientPreview): ClientConfig {
+  const lendpro = sandboxLendproConfig(config.lendpro.salesName);
+  if (!lendpro) {
+    throw new Error("Sandbox LendPro credentials are not configured");
+  }
+
+  return {
+    ...config,
+    lendpro,
+    source: { repo: config.source?.repo, branch: preview.branch },
+  };
+}
+
+/**
+ * Railway service name of a preview, e.g. "preview-feature-cart-3fa9c1"
+ */
+export function previewServiceName(preview: ClientPreview): string {
+  const branch = preview.branch
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 30);
+  return `preview-${branch}-${preview.id.slice(0, 6).toLowerCase()}`;
+}
+
+/**
+ * Queue a preview deployment of a deployed client. Throws `ClientLockedError`
+ * if another deployment holds the client.
+ */
+export async function startPreview(
+  client: Client,
+  data: { branch: string; ttlHours: number; createdBy: string }
+): Promise<{ previewId: string; deploymentId: string }> {
+  if (!client.railwayProjectId) {
+    throw new Error("Deploy the client before creating previews");
+  }
+  if (!sandboxLendproConfig("")) {
+    throw new Error("Sandbox LendPro credentials are not configured");
+  }
+
+  const preview = await createClientPreview({
+    id: nanoid(),
+    clientId: client.id,
+    branch: data.branch,
+    status: "deploying",
+    expiresAt: new Date(Date.now() + data.ttlHours * 3600 * 1000),
+    createdBy: data.createdBy,
+  });
+
+  try {
+    const deploymentId = await enqueueDeployment({
+      clientId: client.id,
+      deploymentType: "preview",
+      environment: "preview",
+      deployedBy: data.createdBy,
+      previousClientStatus: client.status,
+      previewId: preview.id,
+    });
+    return { previewId: preview.id, deploymentId };
+  } catch (error) {
+    await deleteClientPreview(preview.id);
+    throw error;
+  }
+}
+
+/**
+ * Delete a preview's service and mark it removed, or expired when its TTL ran out
+ */
+export async function removePreview(
+  previewId: string,
+  status: "removed" | "expired" = "removed"
+): Promise<ClientPreview> {
+  const preview = await getClientPreview(previewId);
+  if (!preview) {
+    throw new Error(`Preview not found: ${previewId}`);
+  }
+  if (preview.status === "deploying") {
+    throw new Error("The preview is still deploying; cancel its deployment first");
+  }
+  if (preview.status === "removed" || preview.status === "expired") {
+    return preview;
+  }
+
+  const record = await getClient(preview.clientId);
+  if ((preview.railwayServiceId || preview.railwayMysqlServiceId) && record) {
+    const deployer = new ClientDeployer(await createClientProvider(record.client));
+    const services = { serviceId: preview.railwayServiceId, mysqlServiceId: preview.railwayMysqlServiceId };
+    if (!(await deployer.removePreview(services))) {
+      throw new Error(`Failed to delete the services of preview ${preview.id}`);
+    }
+  }
+
+  const updates = { status, removedAt: new Date() };
+  await updateClientPreview(preview.id, updates);
+  return { ...preview, ...updates };
+}
+
+/**
+ * Start removing expired previews in the background
+ */
+export function startPreviewReaper(): void {
+  if (running) return;
+  running = true;
+  console.log("[Previews] Reaper started");
+  scheduleNextCheck(0);
+}
+
+export function stopPreviewReaper(): void {
+  running = false;
+  if (checkTimer) {
+    clearTimeout(checkTimer);
+    checkTimer = null;
+  }
+  console.log("[Previews] Reaper stopped");
+}
+
+function scheduleNextCheck(delay: number) {
+  checkTimer = setTimeout(() => {
+    checkTimer = null;
+    removeExpiredPreviews().finally(() => {
+      if (running) {
+        scheduleNextCheck(CHECK_INTERVAL);
+      }
+    });
+  }, delay);
+}
+
+async function removeExpiredPreviews() {
+  try {
+    const previews = await getExpiredPreviews(new Date());
+    for (const preview of previews) {
+      if (!running) return;
+      try {
+        await removePreview(preview.id, "expired");
+        console.log(`[Previews] Removed expired preview ${preview.id} (${preview.branch})`);
+        await logAdminAction({
+          action: "expire_preview",
+          resourceType: "preview",
+          resourceId: preview.id,
+          details: JSON.stringify({ clientId: preview.clientId, branch: preview.branch }),
+        });
+      } catch (error) {
+        // Tried again on the next pass
+        console.error(`[Previews] Failed to remove expired preview ${preview.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("[Previews] Check failed:", error);
+  }
+}
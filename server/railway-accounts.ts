@@ -0,0 +1,39 @@
+import { getRailwayAccount, type Client } from "../database/db";
+import { createDeploymentProvider, type DeploymentProvider } from "../scripts/deployment-provider";
+import type { RailwayCredentials } from "../scripts/railway-api";
+import { decryptPassword } from "./crypto";
+
+/**
+ * Railway Accounts
+ * Clients can be spread over several Railway accounts and teams. Each account
+ * registered in the portal stores its API token encrypted; a client assigned
+ * to one is deployed and managed with that token and its projects are created
+ * in the account's team. Clients without an account use RAILWAY_API_TOKEN.
+ */
+
+/**
+ * Decrypted credentials of a Railway account, or undefined for the default
+ * account from the environment
+ */
+export async function getRailwayCredentials(accountId: string | null): Promise<RailwayCredentials | undefined> {
+  if (!accountId) return undefined;
+
+  const account = await getRailwayAccount(accountId);
+  if (!account) {
+    throw new Error(`Railway account not found: ${accountId}`);
+  }
+
+  return {
+    apiToken: decryptPassword(account.apiToken),
+    teamId: account.teamId || undefined,
+  };
+}
+
+/**
+ * Deployment provider using the Railway account a client is assigned to
+ */
+export async function createClientProvider(
+  client: Pick<Client, "railwayAccountId">
+): Promise<DeploymentProvider> {
+  return createDeploymentProvider(await getRailwayCredentials(client.railwayAccountId));
+}
@@ -0,0 +1,346 @@
+import { nanoid } from "nanoid";
+import {
+  createClient,
+  getClient,
+  getAllClients,
+  updateClient,
+  updateClientLendpro,
+  updateClientBranding,
+  updateClientFeatures,
+  updateClientVisualizer,
+  getClientDomainByName,
+  type Client,
+} from "../database/db";
+import type { EnvironmentVariable, ProjectDetails } from "../scripts/deployment-provider";
+import { encryptPassword } from "./crypto";
+import { assertClientUnlocked } from "./client-lock";
+import { addClientDomain, attachPendingDomains, recordDeployedDomain } from "./client-domains";
+import { createClientProvider } from "./railway-accounts";
+
+/**
+ * Railway Import
+ * Brings storefront projects set up by hand in Railway under the portal. The
+ * web service's variables are read back into a client config for an admin to
+ * review; importing then links the project to a new or existing client, whose
+ * next deployment is a normal update of that service.
+ */
+
+export interface ImportableProject extends ProjectDetails {
+  // Client the project is already linked to
+  clientId: string | null;
+  clientName: string | null;
+}
+
+/**
+ * Client config read from a service's variables, in the shape of `clients.create`
+ */
+export interface ImportedClientConfig {
+  lendpro: {
+    apiUrl: string;
+    username: string;
+    password: string;
+    storeId: string;
+    salesId: string;
+    salesName: string;
+  };
+  branding: {
+    logoUrl?: string;
+    primaryColor?: string;
+    secondaryColor?: string;
+    companyName?: string;
+  };
+  features: { cartOnly: boolean };
+  visualizer: { enabled: boolean; embedCode?: string; autoSyncApiKey?: string };
+}
+
+export interface ProjectImportPreview {
+  projectId: string;
+  projectName: string;
+  serviceId: string;
+  mysqlServiceId: string | null;
+  environmentId: string;
+  serviceUrl: string | null;
+  // Custom domains already on the service, recorded with the client on import
+  domains: string[];
+  config: ImportedClientConfig;
+  // Required LendPro variables the service does not set
+  missing: string[];
+  // Variables the portal does not manage; the next deployment removes them
+  unmanaged: string[];
+  warnings: string[];
+}
+
+const LENDPRO_VARIABLES = {
+  LENDPRO_API_URL: "apiUrl",
+  LENDPRO_USERNAME: "username",
+  LENDPRO_PASSWORD: "password",
+  LENDPRO_STORE_ID: "storeId",
+  LENDPRO_SALES_ID: "salesId",
+  LENDPRO_SALES_NAME: "salesName",
+} as const;
+
+// Set by the deployer from the portal config or fixed by it
+const MANAGED_VARIABLES = new Set([
+  ...Object.keys(LENDPRO_VARIABLES),
+  "NODE_ENV",
+  "PORT",
+  "DATABASE_URL",
+  "OAUTH_SERVER_URL",
+  "VISUALIZER_ENABLED",
+  "VISUALIZER_EMBED_CODE",
+  "AUTOSYNC_API_KEY",
+  "CART_ONLY_MODE",
+  "VITE_PRIMARY_COLOR",
+  "VITE_SECONDARY_COLOR",
+  "VITE_COMPANY_NAME",
+  "VITE_LOGO_URL",
+]);
+
+const HEX_COLOR = /^#[0-9A-Fa-f]{6}$/;
+
+/**
+ * Read a client config back from the variables the deployer would have set,
+ * the reverse of `ClientDeployer.buildEnvironmentVariables`
+ */
+export function parseClientVariables(variables: EnvironmentVariable[]): Pick<
+  ProjectImportPreview,
+  "config" | "missing" | "unmanaged" | "warnings"
+> {
+  const values = new Map(variables.map((variable) => [variable.key, variable.value]));
+  const warnings: string[] = [];
+
+  const lendpro = {
+    apiUrl: "https://apisg.mylendpro.com",
+    username: "",
+    password: "",
+    storeId: "",
+    salesId: "",
+    salesName: "",
+  };
+  const missing: string[] = [];
+  for (const [key, field] of Object.entries(LENDPRO_VARIABLES)) {
+    const value = values.get(key);
+    if (value) {
+      lendpro[field] = value;
+    } else if (key !== "LENDPRO_API_URL") {
+      missing.push(key);
+    }
+  }
+
+  const color = (key: string) => {
+    const value = values.get(key);
+    if (value && !HEX_COLOR.test(value)) {
+      warnings.push(`${key} is not a #rrggbb color and was left out: ${value}`);
+      return undefined;
+    }
+    return value || undefined;
+  };
+
+  return {
+    config: {
+      lendpro,
+      branding: {
+        logoUrl: values.get("VITE_LOGO_URL") || undefined,
+        primaryColor: color("VITE_PRIMARY_COLOR"),
+        secondaryColor: color("VITE_SECONDARY_COLOR"),
+        companyName: values.get("VITE_COMPANY_NAME") || undefined,
+      },
+      features: { cartOnly: values.get("CART_ONLY_MODE") === "true" },
+      visualizer: {
+        enabled: values.get("VISUALIZER_ENABLED") === "true",
+        embedCode: values.get("VISUALIZER_EMBED_CODE") || undefined,
+        autoSyncApiKey: values.get("AUTOSYNC_API_KEY") || undefined,
+      },
+    },
+    missing,
+    unmanaged: [...values.keys()].filter((key) => !MANAGED_VARIABLES.has(key)).sort(),
+    warnings,
+  };
+}
+
+/**
+ * Projects the account's token can see, with the client each is linked to
+ */
+export async function listImportableProjects(railwayAccountId: string | null): Promise<ImportableProject[]> {
+  const provider = await createClientProvider({ railwayAccountId });
+  const [projects, clients] = await Promise.all([provider.listProjects(), getAllClients()]);
+
+  return projects.map((project) => {
+    const client = clients.find((client) => client.railwayProjectId === project.id);
+    return { ...project, clientId: client?.id ?? null, clientName: client?.name ?? null };
+  });
+}
+
+/**
+ * The storefront's web and MySQL services and production environment in a
+ * project. Without a chosen service, the one named "web" or the only service
+ * that is not MySQL is used.
+ */
+function resolveImportTarget(project: ProjectDetails, serviceId?: string) {
+  const mysql = project.services.find((service) => /mysql/i.test(service.name));
+  const candidates = project.services.filter((service) => service !== mysql);
+
+  const web = serviceId
+    ? project.services.find((service) => service.id === serviceId)
+    : candidates.find((service) => service.name === "web") ||
+      (candidates.length === 1 ? candidates[0] : undefined);
+  if (!web) {
+    throw new Error(
+      serviceId
+        ? `Service ${serviceId} is not part of project ${project.name}`
+        : `Choose the storefront service of project ${project.name}`
+    );
+  }
+
+  const environment =
+    project.environments.find((environment) => environment.name === "production") || project.environments[0];
+  if (!environment) {
+    throw new Error(`Project ${project.name} has no environment`);
+  }
+
+  return { web, mysql, environmentId: environment.id };
+}
+
+/**
+ * Read a project's storefront service and the client config its variables describe
+ */
+export async function previewProjectImport(
+  railwayAccountId: string | null,
+  projectId: string,
+  serviceId?: string
+): Promise<ProjectImportPreview> {
+  const provider = await createClientProvider({ railwayAccountId });
+  const project = await provider.getProject(projectId);
+  const { web, mysql, environmentId } = resolveImportTarget(project, serviceId);
+
+  const [variables, serviceUrl, domains] = await Promise.all([
+    provider.getEnvironmentVariables(project.id, web.id, environmentId),
+    provider.getServiceDomain(web.id, environmentId),
+    provider.listCustomDomains(web.id, environmentId),
+  ]);
+  const parsed = parseClientVariables(variables);
+  if (!mysql) {
+    parsed.warnings.push(
+      'The project has no MySQL service; DATABASE_URL will reference a service named "mysql"'
+    );
+  }
+  const databaseUrl = variables.find((variable) => variable.key === "DATABASE_URL")?.value;
+  if (databaseUrl && !databaseUrl.startsWith("${{")) {
+    parsed.warnings.push(
+      "DATABASE_URL points outside the project; the next deployment replaces it with the project's MySQL service"
+    );
+  }
+
+  return {
+    projectId: project.id,
+    projectName: project.name,
+    serviceId: web.id,
+    mysqlServiceId: mysql?.id ?? null,
+    environmentId,
+    serviceUrl,
+    domains: domains.map((domain) => domain.domain),
+    ...parsed,
+  };
+}
+
+/**
+ * Link a Railway project to a new client, or to an existing client that has
+ * no project yet, with the reviewed config. The project's custom domains are
+ * recorded with the client. Throws `ClientLockedError` if a deployment holds
+ * the existing client.
+ */
+export async function importProject(data: {
+  railwayAccountId: string | null;
+  projectId: string;
+  serviceId?: string;
+  // Existing client to link, or the name and primary domain of a new one
+  clientId?: string;
+  name?: string;
+  domain?: string;
+  config: ImportedClientConfig;
+  createdBy: string;
+}): Promise<{ clientId: string }> {
+  const linked = (await getAllClients()).find(
+    (client) => client.railwayProjectId === data.projectId
+  );
+  if (linked) {
+    throw new Error(`The project is already linked to client ${linked.name}`);
+  }
+
+  const provider = await createClientProvider({ railwayAccountId: data.railwayAccountId });
+  const project = await provider.getProject(data.projectId);
+  const { web, mysql, environmentId } = resolveImportTarget(project, data.serviceId);
+
+  const railway: Partial<Client> = {
+    railwayAccountId: data.railwayAccountId,
+    railwayProjectId: project.id,
+    railwayProjectUrl: `https://railway.app/project/${project.id}`,
+    railwayEnvironmentId: environmentId,
+    railwayServiceId: web.id,
+    railwayMysqlServiceId: mysql?.id ?? null,
+    serviceUrl: await provider.getServiceDomain(web.id, environmentId),
+    status: "active",
+  };
+  const { lendpro, branding, features, visualizer } = data.config;
+
+  let clientId: string;
+  if (data.clientId) {
+    const record = await getClient(data.clientId);
+    if (!record) {
+      throw new Error(`Client not found: ${data.clientId}`);
+    }
+    if (record.client.railwayProjectId || record.client.railwayOrphanedProjectId) {
+      throw new Error(`${record.client.name} already has a Railway project`);
+    }
+    await assertClientUnlocked(data.clientId);
+
+    clientId = data.clientId;
+    await updateClient(clientId, railway);
+    await updateClientLendpro(clientId, { ...lendpro, password: encryptPassword(lendpro.password) });
+    await updateClientBranding(clientId, {
+      logoUrl: branding.logoUrl ?? null,
+      primaryColor: branding.primaryColor ?? null,
+      secondaryColor: branding.secondaryColor ?? null,
+      companyName: branding.companyName ?? null,
+    });
+    await updateClientFeatures(clientId, features);
+    await updateClientVisualizer(clientId, {
+      enabled: visualizer.enabled,
+      embedCode: visualizer.embedCode ?? null,
+      autoSyncApiKey: visualizer.autoSyncApiKey ?? null,
+    });
+  } else {
+    if (!data.name) {
+      throw new Error("A name is required for a new client");
+    }
+    if (data.domain && (await getClientDomainByName(data.domain))) {
+      throw new Error(`${data.domain} is already used by another client`);
+    }
+
+    clientId = nanoid();
+    await createClient(
+      {
+        ...railway,
+        id: clientId,
+        name: data.name,
+        domain: data.domain || null,
+        createdBy: data.createdBy,
+      },
+      { clientId, ...lendpro, password: encryptPassword(lendpro.password) },
+      { clientId, ...branding },
+      { clientId, ...features },
+      { clientId, ...visualizer }
+    );
+  }
+
+  const existing = await provider.listCustomDomains(web.id, environmentId);
+  for (const details of existing) {
+    await recordDeployedDomain(clientId, { domain: details.domain, details });
+  }
+  if (data.domain && !existing.some((details) => details.domain === data.domain)) {
+    await addClientDomain(clientId, data.domain);
+  }
+  await attachPendingDomains(clientId);
+
+  return { clientId };
+}
@@ -0,0 +1,73 @@
+import { createHash, timingSafeEqual } from "crypto";
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { getDeploymentByRailwayId } from "../database/db";
+import { applyRailwayDeploymentStatus } from "./deployment-worker";
+
+/**
+ * Railway Webhook
+ * Receives Railway's deployment events at /api/webhooks/railway so running
+ * deployments check their status as soon as Railway reports a change; status
+ * polling becomes a fallback. Deployments whose job stopped are settled from
+ * the event (see `applyRailwayDeploymentStatus`).
+ * Railway cannot sign webhooks, so the URL carries a shared secret:
+ * /api/webhooks/railway?secret=<RAILWAY_WEBHOOK_SECRET>
+ */
+
+const deployEventSchema = z.object({
+  type: z.string(),
+  status: z.string().optional(),
+  deployment: z.object({ id: z.string() }).optional(),
+});
+
+function secretMatches(provided: string, expected: string): boolean {
+  // Hash first so the comparison is constant-time whatever the lengths
+  const a = createHash("sha256").update(provided).digest();
+  const b = createHash("sha256").update(expected).digest();
+  return timingSafeEqual(a, b);
+}
+
+/**
+ * Express handler for Railway deployment events. Events for deployments the
+ * portal did not start are acknowledged and ignored, so Railway does not retry them.
+ */
+export async function railwayWebhookHandler(req: Request, res: Response) {
+  const expected = process.env.RAILWAY_WEBHOOK_SECRET;
+  if (!expected) {
+    res.status(404).json({ error: "Railway webhooks are not enabled" });
+    return;
+  }
+
+  const header = req.headers["x-webhook-secret"];
+  const provided =
+    typeof req.query.secret === "string" ? req.query.secret : typeof header === "string" ? header : "";
+  if (!secretMatches(provided, expected)) {
+    res.status(401).json({ error: "Invalid webhook secret" });
+    return;
+  }
+
+  const parsed = deployEventSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid webhook payload" });
+    return;
+  }
+
+  const event = parsed.data;
+  if (event.type !== "DEPLOY" || !event.deployment || !event.status) {
+    res.json({ ignored: true });
+    return;
+  }
+
+  const deployment = await getDeploymentByRailwayId(event.deployment.id);
+  if (!deployment) {
+    res.json({ ignored: true });
+    return;
+  }
+
+  const result = await applyRailwayDeploymentStatus(deployment, event.status);
+  console.log(
+    `[Railway Webhook] ${event.status} for deployment ${deployment.id} (${event.deployment.id}): ${result}`
+  );
+
+  res.json({ deploymentId: deployment.id, result });
+}
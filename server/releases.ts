@@ -0,0 +1,185 @@
+import { getAllClients, type Client } from "../database/db";
+import { GitHubApiClient, type GitHubRelease, type CommitComparison } from "../scripts/github-api";
+import { DEFAULT_GITHUB_REPO, DEFAULT_GITHUB_BRANCH } from "../scripts/deploy-client";
+import { createRollout } from "./rollout-manager";
+
+/**
+ * Storefront Releases
+ * Tracks which lendpro-ecommerce commit and version each client runs, the
+ * latest release of the storefront repo, and how far behind it every client
+ * is. Upgrade campaigns are fleet rollouts that deploy that release's commit
+ * to a chosen set of clients. A version is always a release tag.
+ */
+
+const RELEASE_CACHE_TTL = parseInt(process.env.RELEASE_CACHE_TTL || "300000");
+
+export interface StorefrontRelease extends GitHubRelease {
+  repo: string;
+}
+
+export type ClientReleaseState =
+  | "current"
+  | "behind"
+  | "ahead"
+  | "diverged"
+  // Built from another repo, branch or a pinned commit; not part of releases
+  | "custom_source"
+  | "not_deployed"
+  | "unknown";
+
+export interface ClientReleaseStatus {
+  clientId: string;
+  name: string;
+  status: Client["status"];
+  deployedCommitSha: string | null;
+  deployedVersion: string | null;
+  lastDeployedAt: Date | null;
+  state: ClientReleaseState;
+  // Release commits the client is missing
+  behindBy: number | null;
+}
+
+let github: GitHubApiClient | null = null;
+let latestRelease: { release: StorefrontRelease | null; fetchedAt: number } | null = null;
+// Commits never change, so a comparison holds for the life of the process
+const comparisons = new Map<string, CommitComparison>();
+
+function getGitHub(): GitHubApiClient {
+  if (!github) {
+    github = new GitHubApiClient({ token: process.env.GITHUB_TOKEN || undefined });
+  }
+  return github;
+}
+
+/**
+ * Whether a client is built from the default storefront branch and so
+ * follows its releases
+ */
+export function tracksStorefrontReleases(client: Client): boolean {
+  return (
+    (!client.githubRepo || client.githubRepo === DEFAULT_GITHUB_REPO) &&
+    (!client.githubBranch || client.githubBranch === DEFAULT_GITHUB_BRANCH) &&
+    !client.githubCommitSha
+  );
+}
+
+/**
+ * Latest release of the storefront repo, cached for RELEASE_CACHE_TTL
+ */
+export async function getLatestRelease(refresh = false): Promise<StorefrontRelease | null> {
+  if (!refresh && latestRelease && Date.now() - latestRelease.fetchedAt < RELEASE_CACHE_TTL) {
+    return latestRelease.release;
+  }
+
+  const release = await getGitHub().getLatestRelease(DEFAULT_GITHUB_REPO);
+  const current = release ? { ...release, repo: DEFAULT_GITHUB_REPO } : null;
+
+  latestRelease = { release: current, fetchedAt: Date.now() };
+  return current;
+}
+
+/**
+ * Every client's deployed release compared with the latest one
+ */
+export async function getFleetReleaseStatus(refresh = false): Promise<{
+  release: StorefrontRelease | null;
+  clients: ClientReleaseStatus[];
+}> {
+  const [release, clients] = await Promise.all([getLatestRelease(refresh), getAllClients()]);
+
+  const statuses: ClientReleaseStatus[] = [];
+  for (const client of clients) {
+    if (client.status === "removed") continue;
+
+    const { state, behindBy } = await compareWithRelease(client, release);
+    statuses.push({
+      clientId: client.id,
+      name: client.name,
+      status: client.status,
+      deployedCommitSha: client.deployedCommitSha,
+      deployedVersion: client.deployedVersion,
+      lastDeployedAt: client.lastDeployedAt,
+      state,
+      behindBy,
+    });
+  }
+
+  return { release, clients: statuses };
+}
+
+async function compareWithRelease(
+  client: Client,
+  release: StorefrontRelease | null
+): Promise<Pick<ClientReleaseStatus, "state" | "behindBy">> {
+  if (!client.railwayProjectId) return { state: "not_deployed", behindBy: null };
+  if (!tracksStorefrontReleases(client)) return { state: "custom_source", behindBy: null };
+  if (!release || !client.deployedCommitSha) return { state: "unknown", behindBy: null };
+  if (client.deployedCommitSha === release.commitSha) return { state: "current", behindBy: 0 };
+
+  const key = `${client.deployedCommitSha}...${release.commitSha}`;
+  let comparison = comparisons.get(key);
+  if (!comparison) {
+    try {
+      comparison = await getGitHub().compareCommits(release.repo, client.deployedCommitSha, release.commitSha);
+      comparisons.set(key, comparison);
+    } catch (error) {
+      console.warn(
+        `[Releases] Could not compare ${client.name} with ${release.tag}:`,
+        error instanceof Error ? error.message : error
+      );
+      return { state: "unknown", behindBy: null };
+    }
+  }
+
+  // The comparison is from the client's commit to the release's
+  switch (comparison.status) {
+    case "identical":
+      return { state: "current", behindBy: 0 };
+    case "ahead":
+      return { state: "behind", behindBy: comparison.aheadBy };
+    case "behind":
+      return { state: "ahead", behindBy: 0 };
+    case "diverged":
+      return { state: "diverged", behindBy: comparison.aheadBy };
+  }
+}
+
+/**
+ * Deploy the latest release to the chosen clients as a fleet rollout, canary
+ * wave first. Only deployed clients that follow storefront releases qualify.
+ */
+export async function startUpgradeCampaign(data: {
+  name: string;
+  clientIds: string[];
+  canarySize: number;
+  waveSize: number;
+  concurrency: number;
+  failureThreshold: number;
+  createdBy: string;
+}) {
+  const release = await getLatestRelease(true);
+  if (!release) {
+    throw new Error(`${DEFAULT_GITHUB_REPO} has no release to upgrade to`);
+  }
+
+  const clients = (await getAllClients()).filter((client) => data.clientIds.includes(client.id));
+  const excluded = clients.filter(
+    (client) => !client.railwayProjectId || !tracksStorefrontReleases(client)
+  );
+  if (excluded.length > 0) {
+    throw new Error(
+      `Not deployed or built from a custom source: ${excluded.map((client) => client.name).join(", ")}`
+    );
+  }
+
+  const { clientIds, ...options } = data;
+  return await createRollout({
+    ...options,
+    selector: {
+      statuses: ["active", "inactive", "deploying", "failed", "crashed", "sleeping"],
+      tags: [],
+      clientIds,
+    },
+    target: { commitSha: release.commitSha, version: release.tag },
+  });
+}
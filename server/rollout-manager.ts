@@ -0,0 +1,316 @@
+import { nanoid } from "nanoid";
+import {
+  getAllClients,
+  createRollout as dbCreateRollout,
+  updateRollout,
+  getRollout,
+  getRunningRollouts,
+  getRolloutDeployments,
+  logAdminAction,
+  type Client,
+  type Deployment,
+  type Rollout,
+} from "../database/db";
+import { enqueueDeployment, cancelDeployment } from "./deployment-worker";
+import { ClientLockedError } from "./client-lock";
+
+/**
+ * Rollout Manager
+ * Redeploys a set of clients in waves. Wave 0 is the canary group; each later
+ * wave starts only once the previous one finished below the failure threshold.
+ * Every client deployment is a normal queued deployment tagged with the rollout id.
+ */
+
+const POLL_INTERVAL = parseInt(process.env.ROLLOUT_POLL_INTERVAL || "10000");
+const TERMINAL_STATUSES: Deployment["status"][] = ["success", "failed", "cancelled"];
+// Passes a wave client may stay busy with another deployment before it counts as failed
+const MAX_BUSY_PASSES = parseInt(process.env.ROLLOUT_MAX_BUSY_PASSES || "30");
+
+export interface RolloutSelector {
+  statuses: Client["status"][];
+  tags: string[];
+  // Restrict the rollout to these clients
+  clientIds?: string[];
+}
+
+let running = false;
+let pollTimer: NodeJS.Timeout | null = null;
+// Per rollout, the current wave and how many passes each of its clients was found busy
+const busyPasses = new Map<string, { wave: number; clients: Map<string, number> }>();
+
+/**
+ * Parse the `clients.tags` column
+ */
+export function parseClientTags(tags: string | null): string[] {
+  if (!tags) return [];
+  try {
+    const parsed = JSON.parse(tags);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Parse the `rollouts.waves` column
+ */
+export function parseRolloutWaves(waves: string): string[][] {
+  try {
+    const parsed = JSON.parse(waves);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Deployed clients matching a selector: any of the statuses, if tags are
+ * given at least one of the tags and, if ids are given, one of the ids
+ */
+export async function selectRolloutClients(selector: RolloutSelector): Promise<Client[]> {
+  const clients = await getAllClients();
+  return clients.filter((client) => {
+    if (!client.railwayProjectId) return false;
+    if (!selector.statuses.includes(client.status)) return false;
+    if (selector.clientIds && !selector.clientIds.includes(client.id)) return false;
+    if (selector.tags.length === 0) return true;
+    const tags = parseClientTags(client.tags);
+    return selector.tags.some((tag) => tags.includes(tag));
+  });
+}
+
+/**
+ * Create a rollout over the selected clients and start its canary wave.
+ * With a target every deployment builds that commit instead of the client's ref.
+ */
+export async function createRollout(data: {
+  name: string;
+  selector: RolloutSelector;
+  target?: { commitSha: string; version: string };
+  canarySize: number;
+  waveSize: number;
+  concurrency: number;
+  failureThreshold: number;
+  createdBy: string;
+}): Promise<Rollout> {
+  const clients = await selectRolloutClients(data.selector);
+  if (clients.length === 0) {
+    throw new Error("No deployed clients match the rollout selection");
+  }
+
+  const clientIds = clients.map((client) => client.id);
+  const waves = [clientIds.slice(0, data.canarySize)];
+  for (let i = data.canarySize; i < clientIds.length; i += data.waveSize) {
+    waves.push(clientIds.slice(i, i + data.waveSize));
+  }
+
+  const rollout = await dbCreateRollout({
+    id: nanoid(),
+    name: data.name,
+    status: "running",
+    selector: JSON.stringify(data.selector),
+    targetCommitSha: data.target?.commitSha,
+    targetVersion: data.target?.version,
+    waves: JSON.stringify(waves),
+    currentWave: 0,
+    concurrency: data.concurrency,
+    failureThreshold: data.failureThreshold,
+    createdBy: data.createdBy,
+  });
+
+  wakeRolloutManager();
+  return rollout;
+}
+
+/**
+ * Stop a rollout. Its queued deployments are cancelled; running ones finish.
+ */
+export async function cancelRollout(rolloutId: string): Promise<void> {
+  const rollout = await getRollout(rolloutId);
+  if (!rollout) {
+    throw new Error(`Rollout not found: ${rolloutId}`);
+  }
+  if (rollout.status !== "running") {
+    throw new Error(`Rollout ${rolloutId} is already ${rollout.status}`);
+  }
+
+  await updateRollout(rolloutId, { status: "cancelled", completedAt: new Date() });
+  busyPasses.delete(rolloutId);
+
+  const deployments = await getRolloutDeployments(rolloutId);
+  for (const deployment of deployments) {
+    if (deployment.status !== "pending") continue;
+    try {
+      await cancelDeployment(deployment.id);
+    } catch (error) {
+      console.error(`[Rollout] Failed to cancel deployment ${deployment.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Start advancing running rollouts in the background
+ */
+export function startRolloutManager(): void {
+  if (running) return;
+  running = true;
+  console.log("[Rollout] Manager started");
+  scheduleNextPoll(0);
+}
+
+export function stopRolloutManager(): void {
+  running = false;
+  if (pollTimer) {
+    clearTimeout(pollTimer);
+    pollTimer = null;
+  }
+  console.log("[Rollout] Manager stopped");
+}
+
+/**
+ * Trigger an immediate pass over running rollouts
+ */
+export function wakeRolloutManager(): void {
+  if (running) {
+    scheduleNextPoll(0);
+  }
+}
+
+function scheduleNextPoll(delay: number) {
+  if (pollTimer) {
+    clearTimeout(pollTimer);
+  }
+  pollTimer = setTimeout(() => {
+    pollTimer = null;
+    poll().finally(() => {
+      if (running && !pollTimer) {
+        scheduleNextPoll(POLL_INTERVAL);
+      }
+    });
+  }, delay);
+}
+
+async function poll() {
+  try {
+    const rollouts = await getRunningRollouts();
+    if (rollouts.length === 0) return;
+
+    const clients = new Map((await getAllClients()).map((client) => [client.id, client]));
+    for (const rollout of rollouts) {
+      try {
+        await advanceRollout(rollout, clients);
+      } catch (error) {
+        console.error(`[Rollout] Failed to advance rollout ${rollout.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("[Rollout] Poll failed:", error);
+  }
+}
+
+/**
+ * Queue more deployments for the current wave, or evaluate it once every
+ * client in it has finished
+ */
+async function advanceRollout(rollout: Rollout, clients: Map<string, Client>): Promise<void> {
+  const waves = parseRolloutWaves(rollout.waves);
+  const wave = rollout.currentWave;
+  // Clients deleted since the rollout was created are skipped
+  const waveClientIds = (waves[wave] || []).filter((clientId) => clients.has(clientId));
+
+  const waveDeployments = (await getRolloutDeployments(rollout.id)).filter(
+    (deployment) => deployment.rolloutWave === wave
+  );
+  const started = new Set(waveDeployments.map((deployment) => deployment.clientId));
+  const finished = waveDeployments.filter((deployment) => TERMINAL_STATUSES.includes(deployment.status));
+
+  if (busyPasses.get(rollout.id)?.wave !== wave) {
+    busyPasses.set(rollout.id, { wave, clients: new Map() });
+  }
+  const busy = busyPasses.get(rollout.id)!;
+  // Clients that stayed busy for too long are given up on so the wave can finish
+  const skipped = waveClientIds.filter(
+    (clientId) => !started.has(clientId) && (busy.clients.get(clientId) || 0) >= MAX_BUSY_PASSES
+  );
+  const markBusy = (clientId: string) => {
+    const passes = (busy.clients.get(clientId) || 0) + 1;
+    busy.clients.set(clientId, passes);
+    if (passes === MAX_BUSY_PASSES) {
+      console.log(`[Rollout] Skipping client ${clientId} in rollout ${rollout.id}: busy for ${passes} passes`);
+      skipped.push(clientId);
+    }
+  };
+
+  let slots = rollout.concurrency - (waveDeployments.length - finished.length);
+  for (const clientId of waveClientIds) {
+    if (slots <= 0) break;
+    if (started.has(clientId) || skipped.includes(clientId)) continue;
+
+    const client = clients.get(clientId)!;
+    // Busy with a deployment outside this rollout; try again on the next pass
+    if (client.status === "deploying") {
+      markBusy(clientId);
+      continue;
+    }
+
+    try {
+      await enqueueDeployment({
+        clientId,
+        deploymentType: "redeploy",
+        deployedBy: rollout.createdBy || "",
+        previousClientStatus: client.status,
+        rolloutId: rollout.id,
+        rolloutWave: wave,
+        commitSha: rollout.targetCommitSha || undefined,
+        version: rollout.targetVersion || undefined,
+      });
+    } catch (error) {
+      // Locked by another deployment that started since the clients were read
+      if (error instanceof ClientLockedError) {
+        markBusy(clientId);
+        continue;
+      }
+      throw error;
+    }
+    client.status = "deploying";
+    slots--;
+  }
+
+  const total = finished.length + skipped.length;
+  if (total < waveClientIds.length) return;
+
+  // Skipped clients count against the failure threshold
+  const failed = finished.filter((deployment) => deployment.status !== "success").length + skipped.length;
+  const label = wave === 0 ? "Canary wave" : `Wave ${wave}`;
+
+  if (total > 0 && failed * 100 > rollout.failureThreshold * total) {
+    const message = `${label} failed: ${failed} of ${total} deployments did not succeed (threshold ${rollout.failureThreshold}%)`;
+    console.log(`[Rollout] Halting rollout ${rollout.id}: ${message}`);
+    busyPasses.delete(rollout.id);
+    await updateRollout(rollout.id, { status: "halted", errorMessage: message, completedAt: new Date() });
+    await logRolloutAction(rollout, "rollout_halted", { wave, failed, skipped: skipped.length, total });
+    return;
+  }
+
+  if (wave + 1 < waves.length) {
+    console.log(`[Rollout] ${label} of rollout ${rollout.id} passed, starting wave ${wave + 1}`);
+    await updateRollout(rollout.id, { currentWave: wave + 1 });
+    wakeRolloutManager();
+    return;
+  }
+
+  console.log(`[Rollout] Rollout ${rollout.id} completed`);
+  busyPasses.delete(rollout.id);
+  await updateRollout(rollout.id, { status: "completed", completedAt: new Date() });
+  await logRolloutAction(rollout, "rollout_completed", { waves: waves.length });
+}
+
+async function logRolloutAction(rollout: Rollout, action: string, details: Record<string, unknown>) {
+  await logAdminAction({
+    action,
+    resourceType: "rollout",
+    resourceId: rollout.id,
+    details: JSON.stringify(details),
+    adminUserId: rollout.createdBy ? parseInt(rollout.createdBy) : undefined,
+  });
+}
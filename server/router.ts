@@ -17,9 +17,27 @@ import {
   updateClientFeatures,
   updateClientVisualizer,
   deleteClient as dbDeleteClient,
-  createDeployment,
-  updateDeployment,
+  getDeployment,
   getDeploymentHistory,
+  getClientStatusEvents,
+  getClientSubscribers,
+  subscribeToClient,
+  unsubscribeFromClient,
+  getClientDomains,
+  getClientDomain,
+  getClientDomainByName,
+  getAllClientDomains,
+  getClientPreview,
+  getClientPreviews,
+  getRollout,
+  getRollouts,
+  getRolloutDeployments,
+  createRailwayAccount,
+  updateRailwayAccount,
+  deleteRailwayAccount,
+  getRailwayAccount,
+  getRailwayAccounts,
+  countClientsByRailwayAccount,
   getClientAnalytics,
   getAggregateAnalytics,
   logAdminAction,
@@ -29,13 +47,76 @@ import {
   type InsertClientBranding,
   type InsertClientFeatures,
   type InsertClientVisualizer,
+  type Deployment,
 } from "../database/db";
 import { ClientDeployer } from "../scripts/deploy-client";
-import { createRailwayApiClient } from "../scripts/railway-api";
+import { parseSmokeTestResults } from "../scripts/smoke-tests";
 import { nanoid } from "nanoid";
 import { encryptPassword, decryptPassword } from "./crypto";
 import { register, login, logout, hasRole } from "./auth";
-import { getEmailService } from "./email";
+import { enqueueDeployment, cancelDeployment } from "./deployment-worker";
+import { ClientLockedError, assertClientUnlocked } from "./client-lock";
+import { buildClientConfig, resolveTarget } from "./client-deployment";
+import {
+  createRollout,
+  cancelRollout,
+  selectRolloutClients,
+  parseRolloutWaves,
+} from "./rollout-manager";
+import { checkClientDrift, importDriftValue } from "./config-drift";
+import { createClientProvider } from "./railway-accounts";
+import { listImportableProjects, previewProjectImport, importProject } from "./railway-import";
+import { getLatestRelease, getFleetReleaseStatus, startUpgradeCampaign } from "./releases";
+import {
+  DEFAULT_PREVIEW_TTL_HOURS,
+  sandboxLendproConfig,
+  startPreview,
+  removePreview,
+} from "./previews";
+import {
+  addClientDomain,
+  removeClientDomain,
+  retryClientDomain,
+  parseDnsRecords,
+} from "./client-domains";
+
+/**
+ * Strip the encrypted configuration snapshot before sending a deployment to the browser,
+ * and parse its smoke test results
+ */
+function toDeploymentSummary({ configSnapshot, smokeTestResults, ...deployment }: Deployment) {
+  return {
+    ...deployment,
+    smokeTests: parseSmokeTestResults(smokeTestResults),
+    canRollback: deployment.status === "success" && !!configSnapshot,
+    canPromote: deployment.environment === "staging" && deployment.status === "success" && !!configSnapshot,
+  };
+}
+
+/**
+ * Report a client locked by a deployment as a CONFLICT naming who holds the lock
+ */
+async function withClientLock<T>(operation: Promise<T>): Promise<T> {
+  try {
+    return await operation;
+  } catch (error) {
+    if (error instanceof ClientLockedError) {
+      throw new TRPCError({ code: "CONFLICT", message: error.message });
+    }
+    throw error;
+  }
+}
+
+const domainInput = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,}$/, "Invalid domain name");
+
+const rolloutSelectorInput = z.object({
+  statuses: z.array(z.enum(["active", "inactive", "failed", "crashed", "sleeping"])).min(1).default(["active"]),
+  tags: z.array(z.string()).default([]),
+});
 
 /**
  * Admin Portal tRPC Router with Authentication
@@ -128,8 +209,11 @@ export const appRouter = router({
      * Get all clients
      */
     list: protectedProcedure.query(async () => {
-      const clients = await getAllClients();
-      return clients;
+      const [clients, domains] = await Promise.all([getAllClients(), getAllClientDomains()]);
+      return clients.map((client) => ({
+        ...client,
+        domains: domains.filter((domain) => domain.clientId === client.id),
+      }));
     }),
 
     /**
@@ -161,7 +245,7 @@ export const appRouter = router({
       .input(
         z.object({
           name: z.string(),
-          domain: z.string(),
+          domain: domainInput,
           lendpro: z.object({
             username: z.string(),
             password: z.string(),
@@ -195,9 +279,31 @@ export const appRouter = router({
               cartOnly: z.boolean().default(false),
             })
             .optional(),
+          source: z
+            .object({
+              repo: z.string().regex(/^[\w.-]+\/[\w.-]+$/, "Repo must be owner/name").optional(),
+              branch: z.string().min(1).optional(),
+              commitSha: z.string().regex(/^[0-9a-f]{7,40}$/i, "Invalid commit SHA").optional(),
+            })
+            .optional(),
+          railwayAccountId: z.string().optional(),
         })
       )
       .mutation(async ({ input, ctx }) => {
+        if (await getClientDomainByName(input.domain)) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: `${input.domain} is already used by another client`,
+          });
+        }
+
+        if (input.railwayAccountId && !(await getRailwayAccount(input.railwayAccountId))) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Railway account not found: ${input.railwayAccountId}`,
+          });
+        }
+
         const clientId = nanoid();
 
         // Encrypt password
@@ -209,6 +315,10 @@ export const appRouter = router({
           name: input.name,
           domain: input.domain,
           status: "inactive",
+          githubRepo: input.source?.repo,
+          githubBranch: input.source?.branch,
+          githubCommitSha: input.source?.commitSha,
+          railwayAccountId: input.railwayAccountId,
           createdBy: ctx.user.id,
         };
 
@@ -240,6 +350,7 @@ export const appRouter = router({
           : undefined;
 
         await createClient(clientData, lendproData, brandingData, featuresData, visualizerData);
+        await addClientDomain(clientId, input.domain);
 
         // Log action
         await logAdminAction({
@@ -254,11 +365,12 @@ export const appRouter = router({
       }),
 
     /**
-     * Deploy a client to Railway (requires admin role)
+     * Preview a deployment without running it: the environment variables that
+     * would be added, removed or changed on the Railway service. Secrets are masked.
      */
-    deploy: adminProcedure
+    planDeploy: protectedProcedure
       .input(z.object({ clientId: z.string() }))
-      .mutation(async ({ input, ctx }) => {
+      .query(async ({ input }) => {
         const client = await getClient(input.clientId);
         if (!client) {
           throw new TRPCError({
@@ -267,115 +379,182 @@ export const appRouter = router({
           });
         }
 
-        // Create deployment record
-        const deploymentId = nanoid();
-        await createDeployment({
-          id: deploymentId,
-          clientId: input.clientId,
-          status: "pending",
-          deploymentType: client.client.railwayProjectId ? "redeploy" : "initial",
-          deployedBy: ctx.user.id,
-        });
+        try {
+          const deployer = new ClientDeployer(await createClientProvider(client.client));
+          const target = client.client.railwayProjectId
+            ? await resolveTarget(client.client, deployer)
+            : undefined;
+          return await deployer.planDeployment(buildClientConfig(client), target);
+        } catch (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to build deployment plan: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+          });
+        }
+      }),
 
-        const emailService = getEmailService();
+    /**
+     * Status changes the reconciler detected on Railway, newest first
+     */
+    statusHistory: protectedProcedure
+      .input(z.object({ clientId: z.string(), limit: z.number().default(20) }))
+      .query(async ({ input }) => {
+        return await getClientStatusEvents(input.clientId, input.limit);
+      }),
 
-        try {
-          // Update client status
-          await updateClient(input.clientId, { status: "deploying" });
-          await updateDeployment(deploymentId, { status: "building" });
-
-          // Deploy to Railway
-          const railwayClient = createRailwayApiClient();
-          const deployer = new ClientDeployer(railwayClient);
-
-          const clientConfig = {
-            id: client.client.id,
-            name: client.client.name,
-            domain: client.client.domain || "",
-            lendpro: {
-              ...client.lendpro,
-              password: decryptPassword(client.lendpro.password),
-            },
-            branding: client.branding,
-            features: client.features,
-            railway: {
-              projectId: client.client.railwayProjectId || undefined,
-              projectUrl: client.client.railwayProjectUrl || undefined,
-              status: client.client.status,
-            },
-          };
-
-          const result = await deployer.deployClient(clientConfig as any);
-
-          if (result.success) {
-            // Update client with Railway info
-            await updateClient(input.clientId, {
-              status: "active",
-              railwayProjectId: result.projectId || undefined,
-              railwayProjectUrl: result.projectUrl || undefined,
-              serviceUrl: result.serviceUrl || undefined,
-              lastDeployedAt: new Date(),
-            });
+    /**
+     * Admins subscribed to the client's deployment failures, and whether the current user is one
+     */
+    subscription: protectedProcedure
+      .input(z.object({ clientId: z.string() }))
+      .query(async ({ input, ctx }) => {
+        const subscribers = await getClientSubscribers(input.clientId);
+        return {
+          subscribed: subscribers.some((subscriber) => subscriber.id === ctx.user.id),
+          subscribers: subscribers.map(({ id, name, email }) => ({ id, name, email })),
+        };
+      }),
 
-            await updateDeployment(deploymentId, {
-              status: "success",
-              completedAt: new Date(),
-            });
+    /**
+     * Get notified of the client's failed production deployments and automatic rollbacks
+     */
+    subscribe: protectedProcedure
+      .input(z.object({ clientId: z.string() }))
+      .mutation(async ({ input, ctx }) => {
+        const client = await getClient(input.clientId);
+        if (!client) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `Client not found: ${input.clientId}`,
+          });
+        }
 
-            // Log action
-            await logAdminAction({
-              action: "deploy_client",
-              resourceType: "deployment",
-              resourceId: deploymentId,
-              details: JSON.stringify(result),
-              adminUserId: parseInt(ctx.user.id),
-            });
+        await subscribeToClient(input.clientId, ctx.user.id);
+        return { success: true };
+      }),
 
-            // Send success email
-            await emailService.sendDeploymentSuccess(
-              ctx.user.email,
-              client.client.name,
-              result.serviceUrl
-            );
-
-            return { success: true, ...result };
-          } else {
-            await updateClient(input.clientId, { status: "failed" });
-            await updateDeployment(deploymentId, {
-              status: "failed",
-              errorMessage: result.error,
-              completedAt: new Date(),
-            });
+    /**
+     * Stop failure notifications for the client
+     */
+    unsubscribe: protectedProcedure
+      .input(z.object({ clientId: z.string() }))
+      .mutation(async ({ input, ctx }) => {
+        await unsubscribeFromClient(input.clientId, ctx.user.id);
+        return { success: true };
+      }),
 
-            // Send failure email
-            await emailService.sendDeploymentFailure(
-              ctx.user.email,
-              client.client.name,
-              result.error || "Unknown error"
-            );
+    /**
+     * Compare the client's Railway variables with its portal config now instead
+     * of waiting for the next background check. Secrets are masked (requires admin role).
+     */
+    checkDrift: adminProcedure
+      .input(z.object({ clientId: z.string() }))
+      .mutation(async ({ input }) => {
+        const client = await getClient(input.clientId);
+        if (!client) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `Client not found: ${input.clientId}`,
+          });
+        }
 
-            throw new TRPCError({
-              code: "INTERNAL_SERVER_ERROR",
-              message: result.error || "Deployment failed",
-            });
-          }
+        try {
+          return await checkClientDrift(input.clientId);
+        } catch (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to check drift: ${error instanceof Error ? error.message : String(error)}`,
+          });
+        }
+      }),
+
+    /**
+     * Copy a drifted variable's Railway value into the portal config (requires admin role)
+     */
+    importDriftValue: adminProcedure
+      .input(z.object({ clientId: z.string(), key: z.string() }))
+      .mutation(async ({ input, ctx }) => {
+        const client = await getClient(input.clientId);
+        if (!client) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `Client not found: ${input.clientId}`,
+          });
+        }
+        await withClientLock(assertClientUnlocked(input.clientId));
+
+        let drift;
+        try {
+          drift = await importDriftValue(input.clientId, input.key);
         } catch (error) {
-          await updateClient(input.clientId, { status: "failed" });
-          await updateDeployment(deploymentId, {
-            status: "failed",
-            errorMessage: error instanceof Error ? error.message : String(error),
-            completedAt: new Date(),
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to import ${input.key}: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
           });
+        }
+
+        await logAdminAction({
+          action: "import_client_drift",
+          resourceType: "client",
+          resourceId: input.clientId,
+          details: JSON.stringify({ key: input.key }),
+          adminUserId: parseInt(ctx.user.id),
+        });
 
-          // Send failure email
-          await emailService.sendDeploymentFailure(
-            ctx.user.email,
-            client.client.name,
-            error instanceof Error ? error.message : String(error)
-          );
+        return drift;
+      }),
+
+    /**
+     * Queue a deployment of a client to Railway (requires admin role)
+     * Returns immediately; the deployment worker runs the job in the background.
+     * Staging deployments need the client's project, i.e. a production deployment first.
+     */
+    deploy: adminProcedure
+      .input(
+        z.object({
+          clientId: z.string(),
+          environment: z.enum(["production", "staging"]).default("production"),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        const client = await getClient(input.clientId);
+        if (!client) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `Client not found: ${input.clientId}`,
+          });
+        }
 
-          throw error;
+        if (input.environment === "staging" && !client.client.railwayProjectId) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Deploy the client to production first; its staging environment is created in the same project",
+          });
         }
+
+        const deploymentId = await withClientLock(
+          enqueueDeployment({
+            clientId: input.clientId,
+            deploymentType: client.client.railwayProjectId ? "redeploy" : "initial",
+            environment: input.environment,
+            deployedBy: ctx.user.id,
+            previousClientStatus: client.client.status,
+          })
+        );
+
+        await logAdminAction({
+          action: "deploy_client",
+          resourceType: "deployment",
+          resourceId: deploymentId,
+          details: JSON.stringify({ clientId: input.clientId, environment: input.environment }),
+          adminUserId: parseInt(ctx.user.id),
+        });
+
+        return { deploymentId };
       }),
 
     /**
@@ -386,18 +565,39 @@ export const appRouter = router({
         z.object({
           clientId: z.string(),
           name: z.string().optional(),
-          domain: z.string().optional(),
+          // Primary domain; added to the client's domains if it is new
+          domain: domainInput.optional(),
+          tags: z.array(z.string().trim().min(1)).optional(),
+          // Roll back automatically when a redeploy of the active client fails
+          autoRollback: z.boolean().optional(),
         })
       )
       .mutation(async ({ input, ctx }) => {
-        const { clientId, ...updates } = input;
-        await updateClient(clientId, updates);
+        const { clientId, tags, ...updates } = input;
+        await withClientLock(assertClientUnlocked(clientId));
+        if (updates.domain) {
+          const existing = await getClientDomainByName(updates.domain);
+          if (existing && existing.clientId !== clientId) {
+            throw new TRPCError({
+              code: "CONFLICT",
+              message: `${updates.domain} is already used by another client`,
+            });
+          }
+          if (!existing) {
+            await addClientDomain(clientId, updates.domain);
+          }
+        }
+
+        await updateClient(clientId, {
+          ...updates,
+          ...(tags !== undefined && { tags: JSON.stringify(Array.from(new Set(tags))) }),
+        });
 
         await logAdminAction({
           action: "update_client",
           resourceType: "client",
           resourceId: clientId,
-          details: JSON.stringify(updates),
+          details: JSON.stringify({ ...updates, tags }),
           adminUserId: parseInt(ctx.user.id),
         });
 
@@ -421,6 +621,7 @@ export const appRouter = router({
       )
       .mutation(async ({ input, ctx }) => {
         const { clientId, password, ...otherUpdates } = input;
+        await withClientLock(assertClientUnlocked(clientId));
 
         const updates: any = { ...otherUpdates };
         if (password) {
@@ -455,6 +656,7 @@ export const appRouter = router({
       )
       .mutation(async ({ input, ctx }) => {
         const { clientId, ...updates } = input;
+        await withClientLock(assertClientUnlocked(clientId));
         await updateClientBranding(clientId, updates);
 
         await logAdminAction({
@@ -485,6 +687,7 @@ export const appRouter = router({
       )
       .mutation(async ({ input, ctx }) => {
         const { clientId, ...updates } = input;
+        await withClientLock(assertClientUnlocked(clientId));
         await updateClientFeatures(clientId, updates);
 
         await logAdminAction({
@@ -512,6 +715,7 @@ export const appRouter = router({
       )
       .mutation(async ({ input, ctx }) => {
         const { clientId, ...updates } = input;
+        await withClientLock(assertClientUnlocked(clientId));
         await updateClientVisualizer(clientId, updates);
 
         await logAdminAction({
@@ -525,6 +729,121 @@ export const appRouter = router({
         return { success: true };
       }),
 
+    /**
+     * Set the repo, branch and optional pinned commit a client is built from.
+     * Null resets a field to the deployer default (requires admin role)
+     */
+    updateSource: adminProcedure
+      .input(
+        z.object({
+          clientId: z.string(),
+          githubRepo: z
+            .string()
+            .regex(/^[\w.-]+\/[\w.-]+$/, "Repo must be owner/name")
+            .nullable()
+            .optional(),
+          githubBranch: z.string().min(1).nullable().optional(),
+          githubCommitSha: z
+            .string()
+            .regex(/^[0-9a-f]{7,40}$/i, "Invalid commit SHA")
+            .nullable()
+            .optional(),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        const { clientId, ...updates } = input;
+        await withClientLock(assertClientUnlocked(clientId));
+        await updateClient(clientId, updates);
+
+        await logAdminAction({
+          action: "update_client_source",
+          resourceType: "client",
+          resourceId: clientId,
+          details: JSON.stringify(updates),
+          adminUserId: parseInt(ctx.user.id),
+        });
+
+        return { success: true };
+      }),
+
+    /**
+     * Set the replicas, memory and CPU limits, region and sleep setting of a
+     * client's service, applied on its next deployment. Null limits and region
+     * leave Railway's defaults in place (requires admin role)
+     */
+    updateResources: adminProcedure
+      .input(
+        z.object({
+          clientId: z.string(),
+          numReplicas: z.number().int().min(1).max(20).optional(),
+          memoryLimitGb: z.number().int().min(1).max(32).nullable().optional(),
+          cpuLimit: z.number().int().min(1).max(32).nullable().optional(),
+          region: z
+            .string()
+            .regex(/^[a-z0-9-]+$/, "Invalid region")
+            .nullable()
+            .optional(),
+          sleepWhenIdle: z.boolean().optional(),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        const { clientId, ...updates } = input;
+        await withClientLock(assertClientUnlocked(clientId));
+        await updateClient(clientId, updates);
+
+        await logAdminAction({
+          action: "update_client_resources",
+          resourceType: "client",
+          resourceId: clientId,
+          details: JSON.stringify(updates),
+          adminUserId: parseInt(ctx.user.id),
+        });
+
+        return { success: true };
+      }),
+
+    /**
+     * Choose the Railway account a client is deployed to; null uses the default
+     * account. Only possible before the first deployment, as the client's project
+     * stays in the account it was created in (requires admin role)
+     */
+    updateRailwayAccount: adminProcedure
+      .input(z.object({ clientId: z.string(), railwayAccountId: z.string().nullable() }))
+      .mutation(async ({ input, ctx }) => {
+        const client = await getClient(input.clientId);
+        if (!client) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `Client not found: ${input.clientId}`,
+          });
+        }
+        if (client.client.railwayProjectId || client.client.railwayOrphanedProjectId) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "The client has a Railway project, which cannot be moved to another account",
+          });
+        }
+        if (input.railwayAccountId && !(await getRailwayAccount(input.railwayAccountId))) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Railway account not found: ${input.railwayAccountId}`,
+          });
+        }
+
+        await withClientLock(assertClientUnlocked(input.clientId));
+        await updateClient(input.clientId, { railwayAccountId: input.railwayAccountId });
+
+        await logAdminAction({
+          action: "update_client_railway_account",
+          resourceType: "client",
+          resourceId: input.clientId,
+          details: JSON.stringify({ railwayAccountId: input.railwayAccountId }),
+          adminUserId: parseInt(ctx.user.id),
+        });
+
+        return { success: true };
+      }),
+
     /**
      * Delete a client (requires super admin role)
      */
@@ -538,13 +857,18 @@ export const appRouter = router({
             message: "Client not found",
           });
         }
+        await withClientLock(assertClientUnlocked(input.clientId));
+
+        // Delete from Railway if exists, including a project orphaned by a failed deployment
+        const projectIds = [
+          client.client.railwayProjectId,
+          client.client.railwayOrphanedProjectId,
+        ].filter((id): id is string => !!id);
 
-        // Delete from Railway if exists
-        if (client.client.railwayProjectId) {
+        for (const projectId of projectIds) {
           try {
-            const railwayClient = createRailwayApiClient();
-            const deployer = new ClientDeployer(railwayClient);
-            await deployer.deleteClient(client.client.railwayProjectId);
+            const deployer = new ClientDeployer(await createClientProvider(client.client));
+            await deployer.deleteClient(projectId);
           } catch (error) {
             console.error("Failed to delete Railway project:", error);
             // Continue with database deletion even if Railway deletion fails
@@ -566,15 +890,873 @@ export const appRouter = router({
       }),
   }),
 
-  // ===== Deployment Operations =====
-  deployments: router({
+  // ===== Railway Accounts =====
+  railwayAccounts: router({
     /**
-     * Get deployment history for a client
+     * Registered Railway accounts with the number of clients using each.
+     * Tokens are never returned.
      */
-    history: protectedProcedure
-      .input(z.object({ clientId: z.string(), limit: z.number().default(10) }))
-      .query(async ({ input }) => {
-        return await getDeploymentHistory(input.clientId, input.limit);
+    list: protectedProcedure.query(async () => {
+      const [accounts, clientCounts] = await Promise.all([
+        getRailwayAccounts(),
+        countClientsByRailwayAccount(),
+      ]);
+      return accounts.map(({ apiToken, ...account }) => ({
+        ...account,
+        clientCount: clientCounts.get(account.id) || 0,
+      }));
+    }),
+
+    /**
+     * Register a Railway account or team with its API token (requires super admin role)
+     */
+    create: superAdminProcedure
+      .input(
+        z.object({
+          name: z.string().min(1, "Name is required"),
+          apiToken: z.string().min(1, "API token is required"),
+          teamId: z.string().min(1).optional(),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        const accountId = nanoid();
+        await createRailwayAccount({
+          id: accountId,
+          name: input.name,
+          apiToken: encryptPassword(input.apiToken),
+          teamId: input.teamId,
+          createdBy: ctx.user.id,
+        });
+
+        await logAdminAction({
+          action: "create_railway_account",
+          resourceType: "railway_account",
+          resourceId: accountId,
+          details: JSON.stringify({ name: input.name, teamId: input.teamId }),
+          adminUserId: parseInt(ctx.user.id),
+        });
+
+        return { accountId };
+      }),
+
+    /**
+     * Rename an account, change its team or replace its token (requires super admin role)
+     */
+    update: superAdminProcedure
+      .input(
+        z.object({
+          accountId: z.string(),
+          name: z.string().min(1).optional(),
+          apiToken: z.string().min(1).optional(),
+          teamId: z.string().min(1).nullable().optional(),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        const { accountId, apiToken, ...updates } = input;
+        if (!(await getRailwayAccount(accountId))) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `Railway account not found: ${accountId}`,
+          });
+        }
+
+        await updateRailwayAccount(accountId, {
+          ...updates,
+          ...(apiToken && { apiToken: encryptPassword(apiToken) }),
+        });
+
+        await logAdminAction({
+          action: "update_railway_account",
+          resourceType: "railway_account",
+          resourceId: accountId,
+          details: JSON.stringify({ ...updates, tokenReplaced: !!apiToken }),
+          adminUserId: parseInt(ctx.user.id),
+        });
+
+        return { success: true };
+      }),
+
+    /**
+     * Remove an account no client uses (requires super admin role)
+     */
+    delete: superAdminProcedure
+      .input(z.object({ accountId: z.string() }))
+      .mutation(async ({ input, ctx }) => {
+        const account = await getRailwayAccount(input.accountId);
+        if (!account) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `Railway account not found: ${input.accountId}`,
+          });
+        }
+
+        const clientCount = (await countClientsByRailwayAccount()).get(input.accountId) || 0;
+        if (clientCount > 0) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: `${account.name} is used by ${clientCount} client(s)`,
+          });
+        }
+
+        await deleteRailwayAccount(input.accountId);
+
+        await logAdminAction({
+          action: "delete_railway_account",
+          resourceType: "railway_account",
+          resourceId: input.accountId,
+          details: JSON.stringify({ name: account.name }),
+          adminUserId: parseInt(ctx.user.id),
+        });
+
+        return { success: true };
+      }),
+  }),
+
+  // ===== Railway Import =====
+  railwayImport: router({
+    /**
+     * Projects visible to a Railway account, with the client each is linked to
+     * (requires admin role)
+     */
+    projects: adminProcedure
+      .input(z.object({ railwayAccountId: z.string().nullable() }))
+      .query(async ({ input }) => {
+        try {
+          return await listImportableProjects(input.railwayAccountId);
+        } catch (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to list Railway projects: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+          });
+        }
+      }),
+
+    /**
+     * The client config a project's storefront service describes, read from its
+     * variables for review before importing (requires admin role)
+     */
+    preview: adminProcedure
+      .input(
+        z.object({
+          railwayAccountId: z.string().nullable(),
+          projectId: z.string(),
+          serviceId: z.string().optional(),
+        })
+      )
+      .query(async ({ input }) => {
+        try {
+          return await previewProjectImport(input.railwayAccountId, input.projectId, input.serviceId);
+        } catch (error) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Failed to read Railway project: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+          });
+        }
+      }),
+
+    /**
+     * Link a Railway project to a new client, or to an existing client that has
+     * not been deployed, with the reviewed config (requires admin role)
+     */
+    import: adminProcedure
+      .input(
+        z.object({
+          railwayAccountId: z.string().nullable(),
+          projectId: z.string(),
+          serviceId: z.string().optional(),
+          clientId: z.string().optional(),
+          name: z.string().min(1).optional(),
+          domain: domainInput.optional(),
+          config: z.object({
+            lendpro: z.object({
+              apiUrl: z.string().min(1),
+              username: z.string().min(1, "LendPro username is required"),
+              password: z.string().min(1, "LendPro password is required"),
+              storeId: z.string().min(1, "LendPro store ID is required"),
+              salesId: z.string().min(1, "LendPro sales ID is required"),
+              salesName: z.string().min(1, "LendPro sales name is required"),
+            }),
+            branding: z.object({
+              logoUrl: z.string().optional(),
+              primaryColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/).optional(),
+              secondaryColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/).optional(),
+              companyName: z.string().optional(),
+            }),
+            features: z.object({ cartOnly: z.boolean() }),
+            visualizer: z.object({
+              enabled: z.boolean(),
+              embedCode: z.string().optional(),
+              autoSyncApiKey: z.string().optional(),
+            }),
+          }),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        if (!input.clientId && !input.name) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Choose an existing client or name a new one",
+          });
+        }
+        if (input.clientId && !(await getClient(input.clientId))) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `Client not found: ${input.clientId}`,
+          });
+        }
+        if (!input.clientId && input.domain && (await getClientDomainByName(input.domain))) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: `${input.domain} is already used by another client`,
+          });
+        }
+        const linked = (await getAllClients()).find((client) => client.railwayProjectId === input.projectId);
+        if (linked) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: `The project is already linked to ${linked.name}`,
+          });
+        }
+
+        let clientId;
+        try {
+          ({ clientId } = await withClientLock(importProject({ ...input, createdBy: ctx.user.id })));
+        } catch (error) {
+          if (error instanceof TRPCError) throw error;
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Failed to import project: ${error instanceof Error ? error.message : String(error)}`,
+          });
+        }
+
+        const { config, ...details } = input;
+        await logAdminAction({
+          action: "import_railway_project",
+          resourceType: "client",
+          resourceId: clientId,
+          details: JSON.stringify(details),
+          adminUserId: parseInt(ctx.user.id),
+        });
+
+        return { clientId };
+      }),
+  }),
+
+  // ===== Deployment Operations =====
+  deployments: router({
+    /**
+     * Get deployment history for a client
+     */
+    history: protectedProcedure
+      .input(z.object({ clientId: z.string(), limit: z.number().default(10) }))
+      .query(async ({ input }) => {
+        const history = await getDeploymentHistory(input.clientId, input.limit);
+        return history.map(toDeploymentSummary);
+      }),
+
+    /**
+     * Get a single deployment by ID
+     */
+    get: protectedProcedure
+      .input(z.object({ id: z.string() }))
+      .query(async ({ input }) => {
+        const deployment = await getDeployment(input.id);
+        if (!deployment) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `Deployment not found: ${input.id}`,
+          });
+        }
+        return toDeploymentSummary(deployment);
+      }),
+
+    /**
+     * Cancel a queued or running deployment (requires admin role)
+     */
+    cancel: adminProcedure
+      .input(z.object({ deploymentId: z.string() }))
+      .mutation(async ({ input, ctx }) => {
+        const deployment = await getDeployment(input.deploymentId);
+        if (!deployment) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `Deployment not found: ${input.deploymentId}`,
+          });
+        }
+
+        if (!["pending", "building", "deploying"].includes(deployment.status)) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Deployment is already ${deployment.status}`,
+          });
+        }
+
+        try {
+          await cancelDeployment(input.deploymentId);
+        } catch (error) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: error instanceof Error ? error.message : String(error),
+          });
+        }
+
+        await logAdminAction({
+          action: "cancel_deployment",
+          resourceType: "deployment",
+          resourceId: input.deploymentId,
+          details: JSON.stringify({ clientId: deployment.clientId, status: deployment.status }),
+          adminUserId: parseInt(ctx.user.id),
+        });
+
+        return { success: true };
+      }),
+
+    /**
+     * Roll a client back to the configuration and git ref of a previous
+     * successful deployment (requires admin role)
+     */
+    rollback: adminProcedure
+      .input(z.object({ deploymentId: z.string() }))
+      .mutation(async ({ input, ctx }) => {
+        const source = await getDeployment(input.deploymentId);
+        if (!source) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `Deployment not found: ${input.deploymentId}`,
+          });
+        }
+
+        if (source.status !== "success" || !source.configSnapshot) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Only successful deployments with a configuration snapshot can be rolled back to",
+          });
+        }
+
+        const client = await getClient(source.clientId);
+        if (!client) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `Client not found: ${source.clientId}`,
+          });
+        }
+
+        if (!client.client.railwayProjectId) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Client is not deployed to Railway",
+          });
+        }
+
+        // A rollback restores the environment the source deployment went to
+        const deploymentId = await withClientLock(
+          enqueueDeployment({
+            clientId: source.clientId,
+            deploymentType: "rollback",
+            environment: source.environment,
+            deployedBy: ctx.user.id,
+            previousClientStatus: client.client.status,
+            sourceDeploymentId: source.id,
+          })
+        );
+
+        await logAdminAction({
+          action: "rollback_client",
+          resourceType: "deployment",
+          resourceId: deploymentId,
+          details: JSON.stringify({ clientId: source.clientId, sourceDeploymentId: source.id }),
+          adminUserId: parseInt(ctx.user.id),
+        });
+
+        return { deploymentId };
+      }),
+
+    /**
+     * Promote a successful staging deployment to production (requires admin role)
+     * Production gets the exact variables and git ref that were tested in staging.
+     */
+    promote: adminProcedure
+      .input(z.object({ deploymentId: z.string() }))
+      .mutation(async ({ input, ctx }) => {
+        const source = await getDeployment(input.deploymentId);
+        if (!source) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `Deployment not found: ${input.deploymentId}`,
+          });
+        }
+
+        if (source.environment !== "staging" || source.status !== "success" || !source.configSnapshot) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Only successful staging deployments with a configuration snapshot can be promoted",
+          });
+        }
+
+        const client = await getClient(source.clientId);
+        if (!client) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `Client not found: ${source.clientId}`,
+          });
+        }
+
+        if (!client.client.railwayProjectId) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Client is not deployed to Railway",
+          });
+        }
+
+        const deploymentId = await withClientLock(
+          enqueueDeployment({
+            clientId: source.clientId,
+            deploymentType: "promote",
+            environment: "production",
+            deployedBy: ctx.user.id,
+            previousClientStatus: client.client.status,
+            sourceDeploymentId: source.id,
+          })
+        );
+
+        await logAdminAction({
+          action: "promote_client",
+          resourceType: "deployment",
+          resourceId: deploymentId,
+          details: JSON.stringify({ clientId: source.clientId, sourceDeploymentId: source.id }),
+          adminUserId: parseInt(ctx.user.id),
+        });
+
+        return { deploymentId };
+      }),
+  }),
+
+  // ===== Fleet Rollouts =====
+  rollouts: router({
+    /**
+     * List recent rollouts
+     */
+    list: protectedProcedure
+      .input(z.object({ limit: z.number().default(20) }).optional())
+      .query(async ({ input }) => {
+        const rollouts = await getRollouts(input?.limit);
+        return rollouts.map((rollout) => ({
+          ...rollout,
+          waves: parseRolloutWaves(rollout.waves),
+        }));
+      }),
+
+    /**
+     * Get a rollout with the deployments of every wave
+     */
+    get: protectedProcedure
+      .input(z.object({ rolloutId: z.string() }))
+      .query(async ({ input }) => {
+        const rollout = await getRollout(input.rolloutId);
+        if (!rollout) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `Rollout not found: ${input.rolloutId}`,
+          });
+        }
+
+        const deployments = await getRolloutDeployments(rollout.id);
+        return {
+          rollout: { ...rollout, waves: parseRolloutWaves(rollout.waves) },
+          deployments: deployments.map(toDeploymentSummary),
+        };
+      }),
+
+    /**
+     * Preview which clients a rollout selection would deploy
+     */
+    preview: protectedProcedure
+      .input(rolloutSelectorInput)
+      .query(async ({ input }) => {
+        const clients = await selectRolloutClients(input);
+        return clients.map((client) => ({ id: client.id, name: client.name, status: client.status }));
+      }),
+
+    /**
+     * Start a fleet rollout: redeploy the selected clients in waves,
+     * canary group first (requires admin role)
+     */
+    create: adminProcedure
+      .input(
+        rolloutSelectorInput.extend({
+          name: z.string().min(1, "Name is required"),
+          canarySize: z.number().int().min(1).default(1),
+          waveSize: z.number().int().min(1).default(5),
+          concurrency: z.number().int().min(1).default(2),
+          failureThreshold: z.number().int().min(0).max(100).default(20),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        const { name, statuses, tags, ...options } = input;
+
+        let rollout;
+        try {
+          rollout = await createRollout({
+            name,
+            selector: { statuses, tags },
+            ...options,
+            createdBy: ctx.user.id,
+          });
+        } catch (error) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error instanceof Error ? error.message : String(error),
+          });
+        }
+
+        await logAdminAction({
+          action: "create_rollout",
+          resourceType: "rollout",
+          resourceId: rollout.id,
+          details: JSON.stringify({ name, statuses, tags, ...options }),
+          adminUserId: parseInt(ctx.user.id),
+        });
+
+        return { rolloutId: rollout.id };
+      }),
+
+    /**
+     * Cancel a running rollout (requires admin role)
+     * Queued deployments are cancelled; deployments already running finish.
+     */
+    cancel: adminProcedure
+      .input(z.object({ rolloutId: z.string() }))
+      .mutation(async ({ input, ctx }) => {
+        try {
+          await cancelRollout(input.rolloutId);
+        } catch (error) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: error instanceof Error ? error.message : String(error),
+          });
+        }
+
+        await logAdminAction({
+          action: "cancel_rollout",
+          resourceType: "rollout",
+          resourceId: input.rolloutId,
+          adminUserId: parseInt(ctx.user.id),
+        });
+
+        return { success: true };
+      }),
+  }),
+
+  // ===== Storefront Releases =====
+  releases: router({
+    /**
+     * Latest release of the storefront repo
+     */
+    latest: protectedProcedure
+      .input(z.object({ refresh: z.boolean().default(false) }).optional())
+      .query(async ({ input }) => {
+        try {
+          return await getLatestRelease(input?.refresh);
+        } catch (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to fetch the latest release: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+          });
+        }
+      }),
+
+    /**
+     * Deployed commit and version of every client, compared with the latest release
+     */
+    fleet: protectedProcedure
+      .input(z.object({ refresh: z.boolean().default(false) }).optional())
+      .query(async ({ input }) => {
+        try {
+          return await getFleetReleaseStatus(input?.refresh);
+        } catch (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to load release status: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+          });
+        }
+      }),
+
+    /**
+     * Start an upgrade campaign: a fleet rollout deploying the latest release
+     * to the chosen clients (requires admin role)
+     */
+    startCampaign: adminProcedure
+      .input(
+        z.object({
+          name: z.string().min(1, "Name is required"),
+          clientIds: z.array(z.string()).min(1, "Select at least one client"),
+          canarySize: z.number().int().min(1).default(1),
+          waveSize: z.number().int().min(1).default(5),
+          concurrency: z.number().int().min(1).default(2),
+          failureThreshold: z.number().int().min(0).max(100).default(20),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        let rollout;
+        try {
+          rollout = await startUpgradeCampaign({ ...input, createdBy: ctx.user.id });
+        } catch (error) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error instanceof Error ? error.message : String(error),
+          });
+        }
+
+        await logAdminAction({
+          action: "start_upgrade_campaign",
+          resourceType: "rollout",
+          resourceId: rollout.id,
+          details: JSON.stringify({
+            ...input,
+            targetCommitSha: rollout.targetCommitSha,
+            targetVersion: rollout.targetVersion,
+          }),
+          adminUserId: parseInt(ctx.user.id),
+        });
+
+        return { rolloutId: rollout.id };
+      }),
+  }),
+
+  // ===== Custom Domains =====
+  domains: router({
+    /**
+     * Domains of a client with their DNS records, verification and certificate status
+     */
+    list: protectedProcedure
+      .input(z.object({ clientId: z.string() }))
+      .query(async ({ input }) => {
+        const domains = await getClientDomains(input.clientId);
+        return domains.map((domain) => ({
+          ...domain,
+          dnsRecords: parseDnsRecords(domain.dnsRecords),
+        }));
+      }),
+
+    /**
+     * Add a domain to a client, on Railway right away if it is deployed (requires admin role)
+     */
+    add: adminProcedure
+      .input(z.object({ clientId: z.string(), domain: domainInput }))
+      .mutation(async ({ input, ctx }) => {
+        const client = await getClient(input.clientId);
+        if (!client) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `Client not found: ${input.clientId}`,
+          });
+        }
+        await withClientLock(assertClientUnlocked(input.clientId));
+
+        let domain;
+        try {
+          domain = await addClientDomain(input.clientId, input.domain);
+        } catch (error) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: error instanceof Error ? error.message : String(error),
+          });
+        }
+
+        await logAdminAction({
+          action: "add_client_domain",
+          resourceType: "client",
+          resourceId: input.clientId,
+          details: JSON.stringify({ domain: domain.domain }),
+          adminUserId: parseInt(ctx.user.id),
+        });
+
+        return { ...domain, dnsRecords: parseDnsRecords(domain.dnsRecords) };
+      }),
+
+    /**
+     * Remove a domain from Railway and from its client (requires admin role)
+     */
+    remove: adminProcedure
+      .input(z.object({ domainId: z.string() }))
+      .mutation(async ({ input, ctx }) => {
+        const existing = await getClientDomain(input.domainId);
+        if (!existing) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `Domain not found: ${input.domainId}`,
+          });
+        }
+        await withClientLock(assertClientUnlocked(existing.clientId));
+
+        let domain;
+        try {
+          domain = await removeClientDomain(input.domainId);
+        } catch (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Failed to remove domain: ${error instanceof Error ? error.message : String(error)}`,
+          });
+        }
+
+        await logAdminAction({
+          action: "remove_client_domain",
+          resourceType: "client",
+          resourceId: domain.clientId,
+          details: JSON.stringify({ domain: domain.domain }),
+          adminUserId: parseInt(ctx.user.id),
+        });
+
+        return { success: true };
+      }),
+
+    /**
+     * Add a failed domain to Railway again, or refresh its status (requires admin role)
+     */
+    retry: adminProcedure
+      .input(z.object({ domainId: z.string() }))
+      .mutation(async ({ input, ctx }) => {
+        const existing = await getClientDomain(input.domainId);
+        if (!existing) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `Domain not found: ${input.domainId}`,
+          });
+        }
+        await withClientLock(assertClientUnlocked(existing.clientId));
+
+        let domain;
+        try {
+          domain = await retryClientDomain(input.domainId);
+        } catch (error) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error instanceof Error ? error.message : String(error),
+          });
+        }
+
+        await logAdminAction({
+          action: "retry_client_domain",
+          resourceType: "client",
+          resourceId: domain.clientId,
+          details: JSON.stringify({ domain: domain.domain, verificationStatus: domain.verificationStatus }),
+          adminUserId: parseInt(ctx.user.id),
+        });
+
+        return { ...domain, dnsRecords: parseDnsRecords(domain.dnsRecords) };
+      }),
+  }),
+
+  // ===== Branch Previews =====
+  previews: router({
+    /**
+     * Recent previews of a client, newest first
+     */
+    list: protectedProcedure
+      .input(z.object({ clientId: z.string() }))
+      .query(async ({ input }) => {
+        return await getClientPreviews(input.clientId);
+      }),
+
+    /**
+     * Deploy a storefront branch as a temporary preview service of a client,
+     * with sandbox LendPro credentials (requires admin role)
+     */
+    create: adminProcedure
+      .input(
+        z.object({
+          clientId: z.string(),
+          branch: z.string().trim().min(1, "Branch is required").max(255),
+          ttlHours: z.number().int().min(1).max(720).default(DEFAULT_PREVIEW_TTL_HOURS),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        const client = await getClient(input.clientId);
+        if (!client) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `Client not found: ${input.clientId}`,
+          });
+        }
+
+        if (!client.client.railwayProjectId) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Deploy the client first; previews run in its Railway project",
+          });
+        }
+        if (!sandboxLendproConfig(client.lendpro.salesName)) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Sandbox LendPro credentials are not configured (LENDPRO_SANDBOX_*)",
+          });
+        }
+
+        const { previewId, deploymentId } = await withClientLock(
+          startPreview(client.client, {
+            branch: input.branch,
+            ttlHours: input.ttlHours,
+            createdBy: ctx.user.id,
+          })
+        );
+
+        await logAdminAction({
+          action: "create_preview",
+          resourceType: "preview",
+          resourceId: previewId,
+          details: JSON.stringify({ ...input, deploymentId }),
+          adminUserId: parseInt(ctx.user.id),
+        });
+
+        return { previewId, deploymentId };
+      }),
+
+    /**
+     * Remove a preview's service before it expires (requires admin role)
+     */
+    remove: adminProcedure
+      .input(z.object({ previewId: z.string() }))
+      .mutation(async ({ input, ctx }) => {
+        const preview = await getClientPreview(input.previewId);
+        if (!preview) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `Preview not found: ${input.previewId}`,
+          });
+        }
+        if (preview.status === "deploying") {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "The preview is still deploying; cancel its deployment first",
+          });
+        }
+
+        try {
+          await removePreview(preview.id);
+        } catch (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: error instanceof Error ? error.message : String(error),
+          });
+        }
+
+        await logAdminAction({
+          action: "remove_preview",
+          resourceType: "preview",
+          resourceId: preview.id,
+          details: JSON.stringify({ clientId: preview.clientId, branch: preview.branch }),
+          adminUserId: parseInt(ctx.user.id),
+        });
+
+        return { success: true };
       }),
   }),
 
@@ -0,0 +1,202 @@
+import {
+  getAllClients,
+  updateClientIfStatus,
+  recordClientStatusEvent,
+  type Client,
+  type InsertClient,
+} from "../database/db";
+import { isNotFoundError, type DeploymentProvider } from "../scripts/deployment-provider";
+import { detachClientDomains } from "./client-domains";
+import { createClientProvider } from "./railway-accounts";
+
+/**
+ * Status Reconciler
+ * Client status is otherwise only set by deployments, so a service that
+ * crashes or goes to sleep afterwards would still show as active. This loop
+ * reads each deployed client's project and the deployment currently serving
+ * its web service from Railway, updates the client status to match and
+ * records every change.
+ */
+
+const RECONCILE_INTERVAL = parseInt(process.env.STATUS_RECONCILE_INTERVAL || "60000");
+
+/**
+ * Client status for each status of the deployment serving the service, or of
+ * the newest deployment when none is serving it
+ */
+const RAILWAY_STATUS_MAP: Record<string, Client["status"]> = {
+  SUCCESS: "active",
+  CRASHED: "crashed",
+  SLEEPING: "sleeping",
+  FAILED: "failed",
+  REMOVED: "removed",
+};
+
+// Statuses that follow the running service. The others stay until the next
+// deployment: failed or removed once nothing is running any more, or failed
+// by the deployment worker after a deployment or its smoke tests failed.
+const RECONCILED_STATUSES: Client["status"][] = ["active", "crashed", "sleeping"];
+
+let running = false;
+let reconcileTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Bring one client's status in line with Railway. Returns the new status, or
+ * null if nothing changed.
+ */
+export async function reconcileClientStatus(
+  client: Client,
+  provider: DeploymentProvider
+): Promise<Client["status"] | null> {
+  // Deploying clients belong to the deployment worker
+  if (!client.railwayProjectId || client.status === "deploying") {
+    return null;
+  }
+
+  try {
+    await provider.getProject(client.railwayProjectId);
+  } catch (error) {
+    if (!isNotFoundError(error)) throw error;
+
+    // Deleted in the Railway dashboard: forget the resources so the next deploy starts fresh
+    const changed = await transition(
+      client,
+      "removed",
+      {
+        railwayProjectId: null,
+        railwayProjectUrl: null,
+        railwayEnvironmentId: null,
+        railwayStagingEnvironmentId: null,
+        stagingServiceUrl: null,
+        railwayServiceId: null,
+        railwayMysqlServiceId: null,
+        serviceUrl: null,
+        configDrift: null,
+      },
+      { reason: `Railway project ${client.railwayProjectId} no longer exists` }
+    );
+    if (changed) {
+      await detachClientDomains(client.id);
+    }
+    return changed ? "removed" : null;
+  }
+
+  if (!client.railwayServiceId || !RECONCILED_STATUSES.includes(client.status)) {
+    return null;
+  }
+
+  // Railway's view of the production service, whatever the portal deployed last.
+  // With nothing running, the newest deployment says why (failed or removed).
+  const environmentId = client.railwayEnvironmentId || undefined;
+  let deployment;
+  try {
+    deployment =
+      (await provider.getActiveDeployment(client.railwayServiceId, environmentId)) ||
+      (await provider.listDeployments(client.railwayServiceId, environmentId))[0];
+  } catch (error) {
+    if (isNotFoundError(error)) return null;
+    throw error;
+  }
+  if (!deployment) {
+    return null;
+  }
+
+  const status = RAILWAY_STATUS_MAP[deployment.status];
+  if (!status || status === client.status) {
+    return null;
+  }
+
+  const serving = status !== "failed" && status !== "removed";
+  const changed = await transition(
+    client,
+    status,
+    {},
+    {
+      railwayStatus: deployment.status,
+      railwayDeploymentId: deployment.deploymentId,
+      reason: serving
+        ? `Running Railway deployment is ${deployment.status}`
+        : `No Railway deployment is running; the latest is ${deployment.status}`,
+    }
+  );
+  return changed ? status : null;
+}
+
+/**
+ * Start reconciling client statuses in the background
+ */
+export function startStatusReconciler(): void {
+  if (running) return;
+  running = true;
+  console.log("[Status] Reconciler started");
+  scheduleNextPass(RECONCILE_INTERVAL);
+}
+
+export function stopStatusReconciler(): void {
+  running = false;
+  if (reconcileTimer) {
+    clearTimeout(reconcileTimer);
+    reconcileTimer = null;
+  }
+  console.log("[Status] Reconciler stopped");
+}
+
+function scheduleNextPass(delay: number) {
+  reconcileTimer = setTimeout(() => {
+    reconcileTimer = null;
+    reconcileAllClients().finally(() => {
+      if (running) {
+        scheduleNextPass(RECONCILE_INTERVAL);
+      }
+    });
+  }, delay);
+}
+
+async function reconcileAllClients() {
+  try {
+    const clients = (await getAllClients()).filter((client) => client.railwayProjectId);
+    if (clients.length === 0) return;
+
+    // One provider per Railway account for the whole pass
+    const providers = new Map<string | null, DeploymentProvider>();
+    for (const client of clients) {
+      if (!running) return;
+      try {
+        let provider = providers.get(client.railwayAccountId);
+        if (!provider) {
+          provider = await createClientProvider(client);
+          providers.set(client.railwayAccountId, provider);
+        }
+        await reconcileClientStatus(client, provider);
+      } catch (error) {
+        console.error(`[Status] Failed to reconcile client ${client.name}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("[Status] Reconcile pass failed:", error);
+  }
+}
+
+/**
+ * Move a client to a new status unless a deployment changed it since it was read
+ */
+async function transition(
+  client: Client,
+  status: Client["status"],
+  updates: Partial<InsertClient>,
+  event: { railwayStatus?: string; railwayDeploymentId?: string; reason: string }
+): Promise<boolean> {
+  const changed = await updateClientIfStatus(client.id, client.status, { ...updates, status });
+  if (!changed) {
+    return false;
+  }
+
+  await recordClientStatusEvent({
+    clientId: client.id,
+    fromStatus: client.status,
+    toStatus: status,
+    ...event,
+  });
+  console.log(`[Status] ${client.name}: ${client.status} → ${status} (${event.reason})`);
+  return true;
+}